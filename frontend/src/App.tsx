@@ -1,16 +1,17 @@
 import { useEffect, useState } from 'react';
-import { Room, Player, GameSession } from './lib/api';
+import { Room, RoomSettings, Player, GameSession, ResumedSession } from './lib/api';
+import { loadSession, clearSession } from './lib/session';
 import { RoomManager } from './core/Room';
 import { GameManager, GameResult } from './core/GameManager';
 import HomeScreen from './components/HomeScreen';
 import LobbyScreen from './components/LobbyScreen';
-import TagBombGame from './games/tag-bomb/TagBombGame';
-import PlatformPushGame from './games/platform-push/PlatformPushGame';
 import ScoreboardScreen from './components/ScoreboardScreen';
-import BoulderRunGame from './games/boulder-run/BoulderRunGame';
-import FallingTilesGame from './games/falling_tiles/FallingTilesGame';
+import HistoryScreen from './components/HistoryScreen';
+import SpectatorPanel from './components/SpectatorPanel';
+import { MinigameRegistry } from './core/Minigame';
+import './games';
 
-type AppState = 'home' | 'lobby' | 'playing' | 'scoreboard' | 'final';
+type AppState = 'home' | 'lobby' | 'playing' | 'scoreboard' | 'final' | 'history';
 
 function App() {
   const [appState, setAppState] = useState<AppState>('home');
@@ -19,134 +20,170 @@ function App() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [currentGame, setCurrentGame] = useState<GameSession | null>(null);
   const [lastGameResults, setLastGameResults] = useState<GameResult[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [roomGames, setRoomGames] = useState<GameSession[]>([]);
+  // Sala do histórico aberto e a tela para onde o "Voltar" leva
+  const [historyRoomCode, setHistoryRoomCode] = useState<string | null>(null);
+  const [historyReturnState, setHistoryReturnState] = useState<AppState>('home');
+  const [loading, setLoading] = useState(() => loadSession() !== null);
+  // A sessão guardada não pôde ser retomada por uma falha temporária (rede, servidor reiniciando);
+  // cada nova tentativa incrementa resumeAttempt
+  const [resumeFailed, setResumeFailed] = useState(false);
+  const [resumeAttempt, setResumeAttempt] = useState(0);
+
+  const roomId = room?.id;
+  const roomCode = room?.room_code;
+  const currentPlayerId = currentPlayer?.id;
+  const currentGameId = currentGame?.id;
+  // Espectadores ficam fora dos jogos e do placar até o próximo jogo ser ativado
+  const activePlayers = RoomManager.getActivePlayers(players);
+  const isSpectator = !!currentPlayer?.is_spectator;
+  const hostPlayerId = room ? RoomManager.getHostId(room, activePlayers) : null;
+  const isHost = !!currentPlayer && hostPlayerId === currentPlayer.id;
+
+  const applySession = (session: ResumedSession) => {
+    setRoom(session.room);
+    setCurrentPlayer(session.player);
+    if (session.game_session) {
+      setCurrentGame(session.game_session);
+      setLastGameResults(session.game_session.results);
+    }
+    setAppState(session.app_state);
+  };
+
+  // Retomar a sessão guardada (ex: o jogador recarregou a página no meio de um jogo)
+  useEffect(() => {
+    RoomManager.resumeSession()
+      .then((session) => {
+        if (session) applySession(session);
+      })
+      .catch(() => setResumeFailed(true))
+      .finally(() => setLoading(false));
+  }, [resumeAttempt]);
 
   useEffect(() => {
-    if (!room) return;
+    if (!roomId) return;
 
     const fetchPlayers = async () => {
-      const fetchedPlayers = await RoomManager.getPlayers(room.id);
+      const fetchedPlayers = await RoomManager.getPlayers(roomId);
       setPlayers(fetchedPlayers);
     };
 
     fetchPlayers();
 
-    const channel = RoomManager.subscribeToRoom(room.id, () => {
-      fetchPlayers();
+    const channel = RoomManager.subscribeToRoom(roomId, currentPlayerId, {
+      onPlayerJoined: (player) => {
+        setPlayers((prev) => prev.some((p) => p.id === player.id) ? prev : [...prev, player]);
+      },
+      onPlayerUpdated: (player) => {
+        setPlayers((prev) => prev.map((p) => p.id === player.id ? player : p));
+        // Um espectador promovido a jogador
+        if (player.id === currentPlayerId) setCurrentPlayer(player);
+      },
+      onPlayerLeft: () => {
+        fetchPlayers();
+      },
+      onRoomStatusChanged: (updatedRoom) => {
+        if (updatedRoom.id !== roomId) return;
+        setRoom(updatedRoom);
+      },
+      onHostChanged: ({ roomId: changedRoomId, hostPlayerId: newHostId }) => {
+        if (changedRoomId !== roomId) return;
+        setRoom((prev) => prev && prev.id === changedRoomId ? { ...prev, host_player_id: newHostId } : prev);
+      }
     });
 
     return () => {
       channel.unsubscribe();
     };
-  }, [room]);
+  }, [roomId, currentPlayerId]);
 
   useEffect(() => {
-    if (!room || appState !== 'lobby') return;
+    if (!roomId || !roomCode || appState !== 'lobby') return;
 
     let isMounted = true;
-    let consecutiveErrors = 0;
-    const MAX_CONSECUTIVE_ERRORS = 3;
-    let unsubscribe: (() => void) | null = null;
 
+    // Estado inicial: a sala pode já ter começado antes da inscrição no canal
     const checkStatus = async () => {
-      if (!isMounted || !room || !room.room_code || !room.id) return;
+      const updatedRoom = await RoomManager.getRoomByCode(roomCode);
+      if (!updatedRoom || !isMounted || updatedRoom.id !== roomId) return;
 
-      const currentRoomCode = room.room_code.trim().toUpperCase();
-      if (currentRoomCode.length !== 6) {
-        return;
-      }
+      setRoom(updatedRoom);
 
-      try {
-        const updatedRoom = await RoomManager.getRoomByCode(currentRoomCode);
-        if (!updatedRoom || !isMounted) {
-          consecutiveErrors++;
-          if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-            if (unsubscribe) {
-              unsubscribe();
-              unsubscribe = null;
-            }
-            return;
-          }
-          return;
+      if (updatedRoom.status === 'playing') {
+        const activeGame = await GameManager.getCurrentGame(updatedRoom.id);
+        if (activeGame && isMounted) {
+          setCurrentGame(activeGame);
+          setAppState('playing');
         }
+      }
+    };
 
-        consecutiveErrors = 0;
+    checkStatus();
 
-        if (updatedRoom.id !== room.id) {
-          return;
-        }
+    const roomChannel = RoomManager.subscribeToRoom(roomId, currentPlayerId, {
+      onRoomStatusChanged: (updatedRoom) => {
+        if (updatedRoom.id === roomId) setRoom(updatedRoom);
+      }
+    });
 
-        setRoom(updatedRoom);
+    const gamesChannel = GameManager.subscribeToGames(roomId, (session) => {
+      if (session.room_id !== roomId) return;
+      setCurrentGame(session);
+      setAppState('playing');
+    });
 
-        if (updatedRoom.status === 'playing') {
-          let activeGame = await GameManager.getCurrentGame(updatedRoom.id);
-          if (!activeGame) {
-            activeGame = await GameManager.getNextGame(updatedRoom.id);
-            if (activeGame) {
-              await GameManager.startGame(activeGame.id);
-            }
-          }
-          if (activeGame && isMounted) {
-            setCurrentGame(activeGame);
-            setAppState('playing');
-            return;
-          }
-        }
-      } catch (error) {
-        consecutiveErrors++;
-        if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
-          if (unsubscribe) {
-            unsubscribe();
-            unsubscribe = null;
-          }
-          return;
-        }
-        return;
-      }
+    return () => {
+      isMounted = false;
+      roomChannel.unsubscribe();
+      gamesChannel.unsubscribe();
     };
+  }, [roomId, roomCode, currentPlayerId, appState]);
 
-    if (room.room_code && room.id) {
-      checkStatus();
-      const channel = RoomManager.subscribeToRoom(room.id, checkStatus);
-      unsubscribe = channel.unsubscribe;
+  useEffect(() => {
+    if (!roomId || appState !== 'scoreboard') return;
 
-      return () => {
-        isMounted = false;
-        if (unsubscribe) {
-          unsubscribe();
-        }
-      };
-    }
-  }, [room?.id, room?.room_code, appState]);
+    let isMounted = true;
 
-  useEffect(() => {
-    if (!room || appState !== 'scoreboard') return;
+    const handleGameStarted = (session: GameSession) => {
+      if (!isMounted || session.room_id !== roomId || session.id === currentGameId) return;
+      setCurrentGame(session);
+      setAppState('playing');
+    };
 
-    const checkNextGame = async () => {
-      const channel = GameManager.subscribeToGames(room.id, async () => {
-        const activeGame = await GameManager.getCurrentGame(room.id);
-        if (activeGame && activeGame.id !== currentGame?.id) {
-          setCurrentGame(activeGame);
-          setAppState('playing');
-        }
-      });
+    GameManager.getCurrentGame(roomId).then((activeGame) => {
+      if (activeGame) handleGameStarted(activeGame);
+    });
+
+    const channel = GameManager.subscribeToGames(roomId, handleGameStarted);
 
-      return () => {
-        channel.unsubscribe();
-      };
+    return () => {
+      isMounted = false;
+      channel.unsubscribe();
     };
+  }, [roomId, appState, currentGameId]);
+
+  // Jogos concluídos alimentam os desempates do placar
+  useEffect(() => {
+    if (!roomId || (appState !== 'scoreboard' && appState !== 'final')) return;
 
-    checkNextGame();
-  }, [room, appState, currentGame]);
+    let isMounted = true;
+    GameManager.getAllGames(roomId).then((games) => {
+      if (isMounted) setRoomGames(games);
+    });
 
-  const handleCreateRoom = async (hostName: string, minPlayers: number, maxGames: number) => {
+    return () => {
+      isMounted = false;
+    };
+  }, [roomId, appState]);
+
+  const handleCreateRoom = async (hostName: string, minPlayers: number, maxGames: number, settings: RoomSettings) => {
     setLoading(true);
-    const result = await RoomManager.createRoom(hostName, minPlayers, maxGames);
+    const result = await RoomManager.createRoom(hostName, minPlayers, maxGames, settings);
 
     if (result) {
       setRoom(result.room);
       setCurrentPlayer(result.player);
-      await GameManager.createGameSessions(result.room.id, maxGames);
+      await GameManager.createGameSessions(result.room.id, maxGames, result.room.settings);
       setAppState('lobby');
     } else {
       alert('Erro ao criar sala. Tente novamente.');
@@ -161,11 +198,17 @@ function App() {
       const result = await RoomManager.joinRoom(roomCodeUpper, playerName);
 
       if (result && result.room && result.room.id && result.room.room_code) {
-        setRoom(result.room);
-        setCurrentPlayer(result.player);
-        setAppState('lobby');
+        if (result.room.status === 'playing') {
+          // Entrada tardia: entra como espectador e cai direto na tela atual (jogo ou placar)
+          const session = await RoomManager.resumeSession();
+          if (session) applySession(session);
+        } else {
+          setRoom(result.room);
+          setCurrentPlayer(result.player);
+          setAppState('lobby');
+        }
       } else {
-        alert('Sala não encontrada, está cheia ou o jogo já começou. Verifique o código.');
+        alert('Sala não encontrada, está cheia ou já terminou. Verifique o código.');
       }
     } catch (error) {
       console.error('Error joining room:', error);
@@ -175,19 +218,36 @@ function App() {
     }
   };
 
-  const handleStartGame = async () => {
-    if (!room || !currentPlayer) return;
+  // "Assistir" só aceita salas em andamento; a entrada é a mesma de handleJoinRoom
+  const handleSpectateRoom = async (roomCode: string, playerName: string) => {
+    setLoading(true);
+    try {
+      const result = await RoomManager.spectateRoom(roomCode, playerName);
+      const session = result ? await RoomManager.resumeSession() : null;
+
+      if (session) {
+        applySession(session);
+      } else {
+        alert('Sala não encontrada, cheia ou sem jogo em andamento. Verifique o código.');
+      }
+    } catch (error) {
+      console.error('Error spectating room:', error);
+      alert('Erro ao entrar na sala. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    const isHost = players[0]?.id === currentPlayer.id;
-    if (!isHost) return;
+  const handleStartGame = async () => {
+    if (!room || !currentPlayer || !isHost) return;
 
     setLoading(true);
     await RoomManager.updateRoomStatus(room.id, 'playing');
 
     const nextGame = await GameManager.getNextGame(room.id);
-    if (nextGame) {
-      await GameManager.startGame(nextGame.id);
-      setCurrentGame(nextGame);
+    const startedGame = nextGame ? await GameManager.startGame(nextGame.id) : null;
+    if (startedGame) {
+      setCurrentGame(startedGame);
       setAppState('playing');
     }
     setLoading(false);
@@ -196,17 +256,22 @@ function App() {
   const handleGameComplete = async (results: GameResult[]) => {
     if (!currentGame || !room) return;
 
-    await GameManager.completeGame(currentGame.id, results);
+    const standings = await GameManager.completeGame(currentGame.id);
     setLastGameResults(results);
 
-    const updatedPlayers = await RoomManager.getPlayers(room.id);
+    // Manter a ordem de entrada: o primeiro jogador da lista é o host
+    const updatedPlayers = standings
+      ? [...standings].sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+      : await RoomManager.getPlayers(room.id);
     setPlayers(updatedPlayers);
 
     const allGames = await GameManager.getAllGames(room.id);
     const completedGames = allGames.filter(g => g.status === 'completed');
 
     if (completedGames.length >= room.max_games) {
-      await RoomManager.updateRoomStatus(room.id, 'finished');
+      if (isHost) {
+        await RoomManager.updateRoomStatus(room.id, 'finished');
+      }
       setAppState('final');
     } else {
       setAppState('scoreboard');
@@ -214,17 +279,18 @@ function App() {
   };
 
   const handleContinueToNextGame = async () => {
-    if (!room) return;
+    if (!room || !isHost) return;
 
     const nextGame = await GameManager.getNextGame(room.id);
-    if (nextGame) {
-      await GameManager.startGame(nextGame.id);
-      setCurrentGame(nextGame);
+    const startedGame = nextGame ? await GameManager.startGame(nextGame.id) : null;
+    if (startedGame) {
+      setCurrentGame(startedGame);
       setAppState('playing');
     }
   };
 
   const handleBackToMenu = () => {
+    clearSession();
     setAppState('home');
     setRoom(null);
     setCurrentPlayer(null);
@@ -233,6 +299,12 @@ function App() {
     setLastGameResults([]);
   };
 
+  const handleShowHistory = (code: string) => {
+    setHistoryRoomCode(code);
+    setHistoryReturnState(appState);
+    setAppState('history');
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-blue-800 flex items-center justify-center">
@@ -241,63 +313,88 @@ function App() {
     );
   }
 
+  if (resumeFailed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-blue-800 flex flex-col items-center justify-center gap-4">
+        <div className="text-white text-2xl">Não foi possível voltar para a sala</div>
+        <p className="text-purple-200">O servidor não respondeu. Sua vaga continua guardada.</p>
+        <div className="flex gap-3">
+          <button
+            onClick={() => {
+              setResumeFailed(false);
+              setLoading(true);
+              setResumeAttempt(resumeAttempt + 1);
+            }}
+            className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-3 px-6 rounded-lg transition-all"
+          >
+            Tentar de novo
+          </button>
+          <button
+            onClick={() => {
+              setResumeFailed(false);
+              handleBackToMenu();
+            }}
+            className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-lg transition-all"
+          >
+            Sair da sala
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (appState === 'home') {
-    return <HomeScreen onCreateRoom={handleCreateRoom} onJoinRoom={handleJoinRoom} />;
+    return (
+      <HomeScreen
+        onCreateRoom={handleCreateRoom}
+        onJoinRoom={handleJoinRoom}
+        onSpectateRoom={handleSpectateRoom}
+        onShowHistory={handleShowHistory}
+      />
+    );
+  }
+
+  if (appState === 'history' && historyRoomCode) {
+    return <HistoryScreen roomCode={historyRoomCode} onBack={() => setAppState(historyReturnState)} />;
   }
 
   if (appState === 'lobby' && room && currentPlayer) {
     return (
       <LobbyScreen
         room={room}
-        players={players}
+        players={activePlayers}
         currentPlayerId={currentPlayer.id}
         onStartGame={handleStartGame}
       />
     );
   }
 
-  if (appState === 'playing' && currentGame && currentPlayer) {
-    if (currentGame.game_type === 'tag_bomb') {
-      return (
-        <TagBombGame
-          players={players}
-          currentPlayerId={currentPlayer.id}
-          gameSessionId={currentGame.id}
-          onGameComplete={handleGameComplete}
-        />
-      );
-    }
-
-    if (currentGame.game_type === 'platform_push') {
-      return (
-        <PlatformPushGame
-          players={players}
-          currentPlayerId={currentPlayer.id}
-          gameSessionId={currentGame.id}
-          onGameComplete={handleGameComplete}
-        />
-      );
-    }
-
-    if (currentGame.game_type === 'boulder_run') {
-      return (
-        <BoulderRunGame
-          players={players}
-          currentPlayerId={currentPlayer.id}
-          gameSessionId={currentGame.id}
-          onGameComplete={handleGameComplete}
-        />
-      );
-    }
-
-    if (currentGame.game_type === 'falling_tiles') {
+  if (appState === 'playing' && currentGame && currentPlayer && room) {
+    const minigame = MinigameRegistry.get(currentGame.game_type);
+    if (minigame) {
+      const GameComponent = minigame.component;
+      // Quem entrou com o jogo em andamento é espectador e assiste até o próximo
+      const isWatching = isSpectator || !GameManager.isParticipant(currentGame, currentPlayer.id);
       return (
-        <FallingTilesGame
-          players={players}
-          currentPlayerId={currentPlayer.id}
-          gameSessionId={currentGame.id}
-          onGameComplete={handleGameComplete}
-        />
+        <>
+          <GameComponent
+            key={currentGame.id}
+            players={GameManager.getParticipants(currentGame, activePlayers)}
+            currentPlayerId={currentPlayer.id}
+            gameSessionId={currentGame.id}
+            onGameComplete={handleGameComplete}
+            hostPlayerId={hostPlayerId}
+            settings={MinigameRegistry.resolveSettings(currentGame.game_type, room.settings)}
+            spectating={isWatching}
+          />
+          {isWatching && (
+            <SpectatorPanel
+              players={activePlayers}
+              gameNumber={currentGame.game_number}
+              totalGames={room.max_games}
+            />
+          )}
+        </>
       );
     }
   }
@@ -305,11 +402,14 @@ function App() {
   if (appState === 'scoreboard' && room && currentGame) {
     return (
       <ScoreboardScreen
-        players={players}
+        players={activePlayers}
         gameNumber={currentGame.game_number}
         totalGames={room.max_games}
         lastGameResults={lastGameResults}
         onContinue={handleContinueToNextGame}
+        canContinue={isHost}
+        scoring={room.settings.scoring}
+        games={roomGames}
       />
     );
   }
@@ -317,11 +417,14 @@ function App() {
   if (appState === 'final' && room) {
     return (
       <ScoreboardScreen
-        players={players}
+        players={activePlayers}
         gameNumber={room.max_games}
         totalGames={room.max_games}
         onContinue={handleBackToMenu}
         isFinalScores
+        scoring={room.settings.scoring}
+        games={roomGames}
+        onShowHistory={() => handleShowHistory(room.room_code)}
       />
     );
   }
@@ -0,0 +1,186 @@
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { RoomSettings } from '../lib/api';
+import { MinigameRegistry, MinigameSettingField } from '../core/Minigame';
+import { SCORING_SYSTEMS } from '../core/Scoring';
+
+interface GameSettingsEditorProps {
+  settings: RoomSettings;
+  onChange: (settings: RoomSettings) => void;
+}
+
+function formatSettingValue(field: MinigameSettingField<Record<string, number>>, value: number): string {
+  if (field.unit === 'percent') return `${value}%`;
+  if (field.unit === 'count') return `${value}`;
+  if (field.unit === 'px') return `${value}px`;
+  return `${value / 1000}s`;
+}
+
+// Playlist da sala: jogos habilitados (na ordem da lista), modo, pontuação e parâmetros de cada jogo
+export default function GameSettingsEditor({ settings, onChange }: GameSettingsEditorProps) {
+  const allGames = MinigameRegistry.getAll();
+  const enabledGames = settings.enabledGames ?? allGames.map((game) => game.id);
+  const disabledGames = allGames.filter((game) => !enabledGames.includes(game.id));
+  const isOrdered = settings.playlistMode === 'ordered';
+  const allowRepeats = settings.allowRepeats ?? true;
+  const scoring = settings.scoring ?? {};
+  const scoringSystem = scoring.system ?? 'linear';
+
+  const toggleGame = (id: string) => {
+    if (enabledGames.includes(id)) {
+      // Pelo menos um jogo fica habilitado
+      if (enabledGames.length === 1) return;
+      onChange({ ...settings, enabledGames: enabledGames.filter((gameId) => gameId !== id) });
+    } else {
+      onChange({ ...settings, enabledGames: [...enabledGames, id] });
+    }
+  };
+
+  const moveGame = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= enabledGames.length) return;
+    const reordered = [...enabledGames];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange({ ...settings, enabledGames: reordered });
+  };
+
+  const setGameValue = (gameId: string, key: string, value: number) => {
+    const games = settings.games ?? {};
+    onChange({ ...settings, games: { ...games, [gameId]: { ...games[gameId], [key]: value } } });
+  };
+
+  const modeButtonClass = (active: boolean) =>
+    `flex-1 py-2 px-3 rounded-lg text-sm font-bold transition-all ${
+      active ? 'bg-purple-500 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-purple-200 text-sm font-semibold mb-2">Pontuação</label>
+        <div className="flex gap-2 mb-1">
+          {SCORING_SYSTEMS.map((system) => (
+            <button
+              key={system.id}
+              onClick={() => onChange({ ...settings, scoring: { ...scoring, system: system.id } })}
+              className={modeButtonClass(scoringSystem === system.id)}
+            >
+              {system.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-purple-300 text-xs mb-2">
+          {SCORING_SYSTEMS.find((system) => system.id === scoringSystem)?.description}
+        </p>
+        <label className="flex items-center gap-2 text-purple-200 text-sm">
+          <input
+            type="checkbox"
+            checked={!!scoring.doubleFinal}
+            onChange={(e) => onChange({ ...settings, scoring: { ...scoring, doubleFinal: e.target.checked } })}
+          />
+          Último jogo vale o dobro
+        </label>
+        <label className="flex items-center gap-2 text-purple-200 text-sm">
+          <input
+            type="checkbox"
+            checked={!!scoring.featBonuses}
+            onChange={(e) => onChange({ ...settings, scoring: { ...scoring, featBonuses: e.target.checked } })}
+          />
+          Bônus por façanhas (ex: segurar a bomba por mais tempo)
+        </label>
+      </div>
+
+      <div>
+        <label className="block text-purple-200 text-sm font-semibold mb-2">Ordem dos Jogos</label>
+        <div className="flex gap-2 mb-2">
+          <button onClick={() => onChange({ ...settings, playlistMode: 'shuffle' })} className={modeButtonClass(!isOrdered)}>
+            Aleatória
+          </button>
+          <button onClick={() => onChange({ ...settings, playlistMode: 'ordered' })} className={modeButtonClass(isOrdered)}>
+            Na ordem da lista
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-purple-200 text-sm">
+          <input
+            type="checkbox"
+            checked={!allowRepeats}
+            onChange={(e) => onChange({ ...settings, allowRepeats: !e.target.checked })}
+          />
+          Sem repetir jogos
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-purple-200 text-sm font-semibold">Jogos</label>
+        {enabledGames.map((gameId, index) => {
+          const game = MinigameRegistry.get(gameId);
+          if (!game) return null;
+          const values = MinigameRegistry.resolveSettings(gameId, settings);
+          const Icon = game.icon;
+
+          return (
+            <div key={gameId} className="bg-white/10 rounded-lg p-3">
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked onChange={() => toggleGame(gameId)} />
+                <Icon className="w-5 h-5 text-purple-300" />
+                <span className="text-white font-semibold flex-1">{game.name}</span>
+                {isOrdered && (
+                  <>
+                    <button onClick={() => moveGame(index, -1)} className="text-purple-200 hover:text-white disabled:opacity-30" disabled={index === 0}>
+                      <ChevronUp className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => moveGame(index, 1)} className="text-purple-200 hover:text-white disabled:opacity-30" disabled={index === enabledGames.length - 1}>
+                      <ChevronDown className="w-5 h-5" />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {game.settingFields.map((field) => field.options ? (
+                <div key={field.key} className="mt-2">
+                  <label className="block text-purple-200 text-xs mb-1">{field.label}</label>
+                  <div className="flex gap-1">
+                    {field.options.map((option, index) => (
+                      <button
+                        key={option}
+                        onClick={() => setGameValue(gameId, field.key, index)}
+                        className={modeButtonClass(values[field.key] === index)}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div key={field.key} className="mt-2">
+                  <label className="block text-purple-200 text-xs mb-1">
+                    {field.label}: {formatSettingValue(field, values[field.key])}
+                  </label>
+                  <input
+                    type="range"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={values[field.key]}
+                    onChange={(e) => setGameValue(gameId, field.key, Number(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+        {disabledGames.map((game) => {
+          const Icon = game.icon;
+          return (
+            <div key={game.id} className="bg-white/5 rounded-lg p-3 flex items-center gap-2 opacity-60">
+              <input type="checkbox" checked={false} onChange={() => toggleGame(game.id)} />
+              <Icon className="w-5 h-5 text-purple-300" />
+              <span className="text-white font-semibold">{game.name}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Clock, Ghost, History, Play } from 'lucide-react';
+import { HistoryGame, RoomHistory } from '../lib/api';
+import { GameManager } from '../core/GameManager';
+import { MinigameRegistry } from '../core/Minigame';
+import { getGhostColorHex, GhostColor } from '../core/Ghost';
+import ReplayViewer from './ReplayViewer';
+
+interface HistoryScreenProps {
+  roomCode: string;
+  onBack: () => void;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Jogos concluídos de uma sala, com duração, posições e replay
+export default function HistoryScreen({ roomCode, onBack }: HistoryScreenProps) {
+  const [history, setHistory] = useState<RoomHistory | null>(null);
+  const [error, setError] = useState('');
+  const [replayGame, setReplayGame] = useState<HistoryGame | null>(null);
+
+  useEffect(() => {
+    GameManager.getRoomHistory(roomCode).then((fetched) => {
+      if (fetched) {
+        setHistory(fetched);
+      } else {
+        setError('Sala não encontrada');
+      }
+    });
+  }, [roomCode]);
+
+  if (history && replayGame) {
+    return (
+      <ReplayViewer
+        room={history.room}
+        players={history.players}
+        game={replayGame}
+        onBack={() => setReplayGame(null)}
+      />
+    );
+  }
+
+  const getPlayer = (playerId: string) => history?.players.find((player) => player.id === playerId);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-blue-800 flex items-center justify-center p-4">
+      <div className="max-w-3xl w-full">
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <History className="w-20 h-20 text-purple-300" strokeWidth={1.5} />
+          </div>
+          <h1 className="text-5xl font-bold text-white mb-2">Histórico</h1>
+          <p className="text-purple-200 text-xl">Sala {roomCode}</p>
+        </div>
+
+        {!history && (
+          <p className="text-center text-white text-xl mb-6">{error || 'Carregando...'}</p>
+        )}
+
+        {history && history.games.length === 0 && (
+          <p className="text-center text-purple-200 mb-6">Nenhum jogo concluído nesta sala</p>
+        )}
+
+        <div className="space-y-4 mb-6">
+          {history?.games.map((game) => (
+            <div key={game.id} className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex items-center gap-3 mb-4">
+                <h2 className="text-2xl font-bold text-white flex-1">
+                  Jogo {game.game_number}: {MinigameRegistry.get(game.game_type)?.name ?? game.game_type}
+                </h2>
+                <span className="text-purple-200 flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  {formatDuration(game.duration_ms)}
+                </span>
+                {game.has_replay && (
+                  <button
+                    onClick={() => setReplayGame(game)}
+                    className="bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-lg transition-all flex items-center gap-2"
+                  >
+                    <Play className="w-4 h-4" />
+                    Replay
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {game.results.slice().sort((a, b) => a.rank - b.rank).map((result) => {
+                  const player = getPlayer(result.player_id);
+                  return (
+                    <div key={result.player_id} className="bg-white/5 rounded-lg p-2 flex items-center gap-3">
+                      <span className="text-purple-300 font-bold w-8 text-center">#{result.rank}</span>
+                      <div
+                        className="w-7 h-7 rounded-full flex items-center justify-center"
+                        style={{ backgroundColor: player ? getGhostColorHex(player.ghost_color as GhostColor) : '#666' }}
+                      >
+                        <Ghost className="w-4 h-4 text-white" strokeWidth={2} />
+                      </div>
+                      <span className="text-white font-semibold flex-1">{result.player_name}</span>
+                      <span className="text-yellow-400 font-bold">+{result.points}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-center">
+          <button
+            onClick={onBack}
+            className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-8 rounded-xl transition-all inline-flex items-center gap-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Voltar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,39 +1,78 @@
 import { useState } from 'react';
-import { Ghost, Users } from 'lucide-react';
+import { Eye, Ghost, History, Users } from 'lucide-react';
+import { RoomSettings } from '../lib/api';
+import { MinigameRegistry } from '../core/Minigame';
+import { GameManager } from '../core/GameManager';
+import GameSettingsEditor from './GameSettingsEditor';
 
 interface HomeScreenProps {
-  onCreateRoom: (hostName: string, minPlayers: number, maxGames: number) => void;
+  onCreateRoom: (hostName: string, minPlayers: number, maxGames: number, settings: RoomSettings) => void;
   onJoinRoom: (roomCode: string, playerName: string) => void;
+  onSpectateRoom: (roomCode: string, playerName: string) => void;
+  onShowHistory: (roomCode: string) => void;
 }
 
-export default function HomeScreen({ onCreateRoom, onJoinRoom }: HomeScreenProps) {
+export default function HomeScreen({ onCreateRoom, onJoinRoom, onSpectateRoom, onShowHistory }: HomeScreenProps) {
   const [mode, setMode] = useState<'menu' | 'create' | 'join'>('menu');
   const [name, setName] = useState('');
   const [roomCode, setRoomCode] = useState('');
   const [minPlayers, setMinPlayers] = useState(2);
   const [maxGames, setMaxGames] = useState(5);
+  const [settings, setSettings] = useState<RoomSettings>(() => ({
+    enabledGames: MinigameRegistry.getIds(),
+    playlistMode: 'shuffle',
+    allowRepeats: true,
+    scoring: { system: 'linear', doubleFinal: false, featBonuses: false },
+    games: {},
+  }));
   const [error, setError] = useState('');
 
+  // Sem repetição não há mais jogos que os habilitados
+  const gameCount = GameManager.getPlaylistLength(settings, maxGames);
+  const maxGamesLimit = GameManager.getPlaylistLength(settings, 10);
+
   const handleCreateRoom = () => {
     if (!name.trim()) {
       setError('Por favor, insira seu nome');
       return;
     }
     setError('');
-    onCreateRoom(name.trim(), minPlayers, maxGames);
+    onCreateRoom(name.trim(), minPlayers, gameCount, settings);
   };
 
-  const handleJoinRoom = () => {
+  const validateJoin = () => {
     if (!name.trim()) {
       setError('Por favor, insira seu nome');
-      return;
+      return false;
     }
+    if (!roomCode.trim()) {
+      setError('Por favor, insira o código da sala');
+      return false;
+    }
+    setError('');
+    return true;
+  };
+
+  const handleJoinRoom = () => {
+    if (validateJoin()) {
+      onJoinRoom(roomCode.trim().toUpperCase(), name.trim());
+    }
+  };
+
+  const handleSpectateRoom = () => {
+    if (validateJoin()) {
+      onSpectateRoom(roomCode.trim().toUpperCase(), name.trim());
+    }
+  };
+
+  // O histórico só precisa do código da sala
+  const handleShowHistory = () => {
     if (!roomCode.trim()) {
       setError('Por favor, insira o código da sala');
       return;
     }
     setError('');
-    onJoinRoom(roomCode.trim().toUpperCase(), name.trim());
+    onShowHistory(roomCode.trim().toUpperCase());
   };
 
   return (
@@ -102,18 +141,20 @@ export default function HomeScreen({ onCreateRoom, onJoinRoom }: HomeScreenProps
 
               <div>
                 <label className="block text-purple-200 text-sm font-semibold mb-2">
-                  Número de Jogos: {maxGames}
+                  Número de Jogos: {gameCount}
                 </label>
                 <input
                   type="range"
                   min="1"
-                  max="10"
-                  value={maxGames}
+                  max={maxGamesLimit}
+                  value={gameCount}
                   onChange={(e) => setMaxGames(Number(e.target.value))}
                   className="w-full"
                 />
               </div>
 
+              <GameSettingsEditor settings={settings} onChange={setSettings} />
+
               {error && (
                 <p className="text-red-300 text-sm bg-red-500/20 p-3 rounded-lg">{error}</p>
               )}
@@ -187,6 +228,22 @@ export default function HomeScreen({ onCreateRoom, onJoinRoom }: HomeScreenProps
                   Entrar
                 </button>
               </div>
+
+              <button
+                onClick={handleSpectateRoom}
+                className="w-full bg-white/10 hover:bg-white/20 text-purple-100 font-semibold py-3 px-4 rounded-lg transition-all flex items-center justify-center gap-2"
+              >
+                <Eye className="w-5 h-5" />
+                Só assistir
+              </button>
+
+              <button
+                onClick={handleShowHistory}
+                className="w-full bg-white/10 hover:bg-white/20 text-purple-100 font-semibold py-3 px-4 rounded-lg transition-all flex items-center justify-center gap-2"
+              >
+                <History className="w-5 h-5" />
+                Ver histórico
+              </button>
             </div>
           </div>
         )}
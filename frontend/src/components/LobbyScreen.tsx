@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { Ghost, Copy, Check, Users, Play } from 'lucide-react';
 import { Player, Room } from '../lib/api';
 import { getGhostColorHex } from '../core/Ghost';
+import { RoomManager } from '../core/Room';
+import { MinigameRegistry } from '../core/Minigame';
 
 interface LobbyScreenProps {
   room: Room;
@@ -12,7 +14,8 @@ interface LobbyScreenProps {
 
 export default function LobbyScreen({ room, players, currentPlayerId, onStartGame }: LobbyScreenProps) {
   const [copied, setCopied] = useState(false);
-  const isHost = players[0]?.id === currentPlayerId;
+  const hostId = RoomManager.getHostId(room, players);
+  const isHost = hostId === currentPlayerId;
   const canStart = players.length >= room.min_players;
 
   const copyRoomCode = () => {
@@ -55,7 +58,7 @@ export default function LobbyScreen({ room, players, currentPlayerId, onStartGam
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {players.map((player, index) => (
+            {players.map((player) => (
               <div
                 key={player.id}
                 className={`bg-white/5 backdrop-blur rounded-xl p-4 border transition-all ${
@@ -74,7 +77,7 @@ export default function LobbyScreen({ room, players, currentPlayerId, onStartGam
                   <div className="flex-1">
                     <div className="flex items-center gap-2">
                       <p className="text-white font-bold">{player.player_name}</p>
-                      {index === 0 && (
+                      {player.id === hostId && (
                         <span className="text-xs bg-yellow-500/20 text-yellow-300 px-2 py-1 rounded-full font-semibold">
                           Host
                         </span>
@@ -107,6 +110,31 @@ export default function LobbyScreen({ room, players, currentPlayerId, onStartGam
           </div>
         </div>
 
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-6">
+          <h3 className="text-white font-bold mb-3">Minigames</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {MinigameRegistry.getAll().map((minigame) => {
+              const Icon = minigame.icon;
+              const supported = MinigameRegistry.supportsPlayerCount(minigame, players.length);
+              return (
+                <div
+                  key={minigame.id}
+                  className={`bg-white/5 rounded-lg p-3 flex items-start gap-3 ${supported ? '' : 'opacity-50'}`}
+                >
+                  <Icon className="w-6 h-6 text-purple-300 shrink-0 mt-1" />
+                  <div>
+                    <p className="text-white font-bold">{minigame.name}</p>
+                    <p className="text-purple-200 text-sm">{minigame.rules}</p>
+                    <p className="text-purple-300 text-xs mt-1">
+                      {minigame.minPlayers}–{minigame.maxPlayers} jogadores
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
         {isHost && (
           <div className="text-center">
             {canStart ? (
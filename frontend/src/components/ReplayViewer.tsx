@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Pause, Play, RotateCcw } from 'lucide-react';
+import { HistoryGame, Player, Room } from '../lib/api';
+import { GameManager } from '../core/GameManager';
+import { MinigameRegistry } from '../core/Minigame';
+import { REPLAY_SPEEDS, ReplayPlayer, ReplayPlayerEntry } from '../core/Replay';
+import { ReplayInput, ReplayLog } from '@demolish-dash/protocol';
+
+interface ReplayViewerProps {
+  room: Room;
+  players: Player[];
+  game: HistoryGame;
+  onBack: () => void;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  eliminated: 'foi eliminado',
+  dropped: 'caiu por desconexão',
+  disconnected: 'desconectou',
+  reconnected: 'voltou',
+};
+
+// Seta da direção de um input; '•' parado
+function directionArrow(dx: number, dy: number): string {
+  const arrows = [['↖', '↑', '↗'], ['←', '•', '→'], ['↙', '↓', '↘']];
+  return arrows[dy + 1][dx + 1];
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Reprodução de uma partida gravada: o próprio componente do jogo desenha, alimentado pelo log
+export default function ReplayViewer({ room, players, game, onBack }: ReplayViewerProps) {
+  const [log, setLog] = useState<ReplayLog | null>(null);
+  const [error, setError] = useState('');
+  const [replay, setReplay] = useState<ReplayPlayer | null>(null);
+  // Recomeçar cria outro ReplayPlayer; o jogo troca de fonte e recria o engine
+  const [run, setRun] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [paused, setPaused] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const [time, setTime] = useState(0);
+  const [events, setEvents] = useState<ReplayPlayerEntry[]>([]);
+  const [inputs, setInputs] = useState<Record<string, ReplayInput>>({});
+
+  useEffect(() => {
+    GameManager.getReplay(game.id).then((fetched) => {
+      if (fetched) {
+        setLog(fetched);
+      } else {
+        setError('Replay indisponível para este jogo');
+      }
+    });
+  }, [game.id]);
+
+  useEffect(() => {
+    if (!log) return;
+
+    const player = new ReplayPlayer(log, game.id, game.results);
+    const handleEntry = (entry: ReplayPlayerEntry) => {
+      if (entry.type === 'input') {
+        setInputs((current) => ({ ...current, [entry.playerId]: entry.input }));
+      } else {
+        setEvents((current) => [entry, ...current]);
+      }
+    };
+    player.onEntry(handleEntry);
+    setReplay(player);
+    setFinished(false);
+    setEvents([]);
+    setInputs({});
+
+    const clock = window.setInterval(() => setTime(player.getTime()), 250);
+    return () => {
+      clearInterval(clock);
+      player.offEntry(handleEntry);
+    };
+  }, [log, run, game.id, game.results]);
+
+  useEffect(() => {
+    replay?.setSpeed(speed);
+  }, [replay, speed]);
+
+  useEffect(() => {
+    replay?.setPaused(paused);
+  }, [replay, paused]);
+
+  const definition = MinigameRegistry.get(game.game_type);
+  const participants = game.participant_ids.length > 0
+    ? players.filter((player) => game.participant_ids.includes(player.id))
+    : players.filter((player) => !player.is_spectator);
+  const getName = (playerId: string) => players.find((player) => player.id === playerId)?.player_name ?? '?';
+
+  if (!log || !replay || !definition) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-blue-800 flex flex-col items-center justify-center gap-4">
+        <div className="text-white text-2xl">{error || (definition ? 'Carregando replay...' : 'Jogo desconhecido')}</div>
+        <button onClick={onBack} className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-lg transition-all">
+          Voltar
+        </button>
+      </div>
+    );
+  }
+
+  const GameComponent = definition.component;
+
+  return (
+    <>
+      <GameComponent
+        players={participants}
+        currentPlayerId=""
+        gameSessionId={game.id}
+        onGameComplete={() => setFinished(true)}
+        hostPlayerId={room.host_player_id}
+        settings={MinigameRegistry.resolveSettings(game.game_type, room.settings)}
+        spectating
+        source={replay}
+      />
+
+      <div className="fixed top-4 left-4 bg-black/40 backdrop-blur-lg rounded-2xl p-4 border border-white/20 flex items-center gap-3">
+        <button onClick={onBack} className="text-purple-200 hover:text-white">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <button onClick={() => setPaused(!paused)} className="text-purple-200 hover:text-white" disabled={finished}>
+          {paused ? <Play className="w-6 h-6" /> : <Pause className="w-6 h-6" />}
+        </button>
+        <button onClick={() => setRun(run + 1)} className="text-purple-200 hover:text-white">
+          <RotateCcw className="w-6 h-6" />
+        </button>
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-2 py-1 rounded text-sm font-bold ${option === speed ? 'bg-purple-500 text-white' : 'bg-white/10 text-purple-200 hover:bg-white/20'}`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+        <span className="text-white font-mono text-sm">
+          {finished ? 'Fim' : `${formatTime(time)} / ${formatTime(replay.duration)}`}
+        </span>
+      </div>
+
+      <div className="fixed top-4 right-4 w-64 bg-black/40 backdrop-blur-lg rounded-2xl p-4 border border-white/20">
+        <p className="text-white font-bold mb-2">Jogo {game.game_number}: {definition.name}</p>
+        {log.truncated && (
+          <p className="text-yellow-300 text-xs mb-2">Partida longa: a gravação para antes do fim</p>
+        )}
+        <div className="space-y-1 mb-3">
+          {participants.map((player) => {
+            const input = inputs[player.id];
+            return (
+              <div key={player.id} className="flex items-center gap-2 text-sm">
+                <span className="text-white flex-1 truncate">{player.player_name}</span>
+                <span className="text-purple-200 font-mono w-8 text-center">
+                  {input ? directionArrow(input.dx, input.dy) : '•'}
+                  {input?.action || input?.holding ? '⚡' : ''}
+                  {input?.bracing ? '🛡' : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {events.map((entry, index) => entry.type === 'event' && (
+            <p key={index} className="text-purple-200 text-xs">
+              <span className="font-mono text-purple-300">{formatTime(entry.tick * log.tickMs)}</span>{' '}
+              {getName(entry.playerId)} {EVENT_LABELS[entry.event]}
+            </p>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
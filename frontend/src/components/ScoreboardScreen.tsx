@@ -1,14 +1,21 @@
-import { Trophy, Star, Ghost } from 'lucide-react';
-import { Player } from '../lib/api';
+import { Trophy, Star, Ghost, History } from 'lucide-react';
+import { GameSession, Player, ScoringSettings } from '../lib/api';
 import { getGhostColorHex } from '../core/Ghost';
+import { GameManager, GameResult } from '../core/GameManager';
+import { describeBreakdown, describeScoring } from '../core/Scoring';
 
 interface ScoreboardScreenProps {
   players: Player[];
   gameNumber: number;
   totalGames: number;
-  lastGameResults?: Array<{ player_id: string; player_name: string; rank: number; points: number }>;
+  lastGameResults?: GameResult[];
   onContinue: () => void;
   isFinalScores?: boolean;
+  canContinue?: boolean;
+  scoring?: ScoringSettings;
+  // Jogos da sala, para os desempates (vitórias e posição média)
+  games?: GameSession[];
+  onShowHistory?: () => void;
 }
 
 export default function ScoreboardScreen({
@@ -17,9 +24,14 @@ export default function ScoreboardScreen({
   totalGames,
   lastGameResults,
   onContinue,
-  isFinalScores = false
+  isFinalScores = false,
+  canContinue = true,
+  scoring,
+  games = [],
+  onShowHistory
 }: ScoreboardScreenProps) {
-  const sortedPlayers = [...players].sort((a, b) => b.total_score - a.total_score);
+  const standings = GameManager.rankStandings(players, games);
+  const isTied = (rank: number) => (lastGameResults ?? []).filter((result) => result.rank === rank).length > 1;
 
   const getRankEmoji = (rank: number) => {
     if (rank === 1) return '🥇';
@@ -41,6 +53,11 @@ export default function ScoreboardScreen({
           <p className="text-purple-200 text-xl">
             {isFinalScores ? 'Parabéns ao vencedor!' : 'Placar Parcial'}
           </p>
+          <div className="mt-3 text-purple-300 text-sm space-y-1">
+            {describeScoring(scoring).map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
         </div>
 
         {lastGameResults && !isFinalScores && (
@@ -66,7 +83,15 @@ export default function ScoreboardScreen({
                     >
                       <Ghost className="w-6 h-6 text-white" strokeWidth={2} />
                     </div>
-                    <span className="text-white font-bold flex-1">{result.player_name}</span>
+                    <div className="flex-1">
+                      <p className="text-white font-bold">
+                        {result.player_name}
+                        {isTied(result.rank) && <span className="text-purple-300 text-xs font-normal ml-2">empate</span>}
+                      </p>
+                      {result.breakdown && (
+                        <p className="text-purple-300 text-xs">{describeBreakdown(result.breakdown)}</p>
+                      )}
+                    </div>
                     <span className="text-yellow-400 font-bold text-xl">+{result.points}</span>
                   </div>
                 );
@@ -82,17 +107,17 @@ export default function ScoreboardScreen({
           </h2>
 
           <div className="space-y-3">
-            {sortedPlayers.map((player, index) => (
+            {standings.map(({ player, rank, wins, averageRank }) => (
               <div
                 key={player.id}
                 className={`backdrop-blur rounded-xl p-5 flex items-center gap-4 transition-all ${
-                  index === 0
+                  rank === 1
                     ? 'bg-gradient-to-r from-yellow-500/20 to-yellow-600/20 border-2 border-yellow-400/50 shadow-lg shadow-yellow-500/20'
                     : 'bg-white/5 border border-white/10'
                 }`}
               >
                 <div className="text-3xl font-bold text-purple-300 w-16 text-center">
-                  {getRankEmoji(index + 1)}
+                  {getRankEmoji(rank)}
                 </div>
 
                 <div
@@ -105,6 +130,11 @@ export default function ScoreboardScreen({
                 <div className="flex-1">
                   <p className="text-white font-bold text-xl">{player.player_name}</p>
                   <p className="text-purple-200 text-sm capitalize">{player.ghost_color} Ghost</p>
+                  {averageRank !== null && (
+                    <p className="text-purple-300 text-xs">
+                      {wins} {wins === 1 ? 'vitória' : 'vitórias'} · posição média {averageRank.toFixed(1)}
+                    </p>
+                  )}
                 </div>
 
                 <div className="text-right">
@@ -117,12 +147,25 @@ export default function ScoreboardScreen({
         </div>
 
         <div className="text-center">
-          <button
-            onClick={onContinue}
-            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-bold py-4 px-12 rounded-xl transition-all transform hover:scale-105 shadow-lg shadow-purple-500/30 text-xl"
-          >
-            {isFinalScores ? 'Voltar ao Menu' : 'Próximo Jogo'}
-          </button>
+          {isFinalScores || canContinue ? (
+            <button
+              onClick={onContinue}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white font-bold py-4 px-12 rounded-xl transition-all transform hover:scale-105 shadow-lg shadow-purple-500/30 text-xl"
+            >
+              {isFinalScores ? 'Voltar ao Menu' : 'Próximo Jogo'}
+            </button>
+          ) : (
+            <p className="text-purple-200">Aguardando o host iniciar o próximo jogo...</p>
+          )}
+          {isFinalScores && onShowHistory && (
+            <button
+              onClick={onShowHistory}
+              className="mt-4 mx-auto bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-8 rounded-xl transition-all flex items-center gap-2"
+            >
+              <History className="w-5 h-5" />
+              Ver histórico e replays
+            </button>
+          )}
         </div>
       </div>
     </div>
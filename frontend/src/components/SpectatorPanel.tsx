@@ -0,0 +1,42 @@
+import { Eye, Ghost } from 'lucide-react';
+import { Player } from '../lib/api';
+import { getGhostColorHex, GhostColor } from '../core/Ghost';
+
+interface SpectatorPanelProps {
+  players: Player[];
+  gameNumber: number;
+  totalGames: number;
+}
+
+// Placar geral ao lado do jogo para quem está assistindo
+export default function SpectatorPanel({ players, gameNumber, totalGames }: SpectatorPanelProps) {
+  const sortedPlayers = [...players].sort((a, b) => b.total_score - a.total_score);
+
+  return (
+    <div className="fixed top-4 right-4 w-64 bg-black/40 backdrop-blur-lg rounded-2xl p-4 border border-white/20">
+      <div className="flex items-center gap-2 mb-1">
+        <Eye className="w-5 h-5 text-purple-300" />
+        <p className="text-white font-bold">Assistindo</p>
+      </div>
+      <p className="text-purple-200 text-sm mb-3">
+        Jogo {gameNumber} de {totalGames} • Você entra no próximo jogo
+      </p>
+
+      <div className="space-y-2">
+        {sortedPlayers.map((player, index) => (
+          <div key={player.id} className="bg-white/5 rounded-lg p-2 flex items-center gap-3">
+            <span className="text-purple-300 font-bold w-6 text-center">{index + 1}</span>
+            <div
+              className="w-7 h-7 rounded-full flex items-center justify-center"
+              style={{ backgroundColor: getGhostColorHex(player.ghost_color as GhostColor) }}
+            >
+              <Ghost className="w-4 h-4 text-white" strokeWidth={2} />
+            </div>
+            <span className="text-white text-sm font-semibold flex-1 truncate">{player.player_name}</span>
+            <span className="text-yellow-400 font-bold">{player.total_score}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
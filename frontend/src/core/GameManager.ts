@@ -1,32 +1,76 @@
-import { api, GameSession } from '../lib/api';
+import { api, GameSession, Player, RoomHistory, RoomSettings } from '../lib/api';
+import { gameSocket } from './GameSocket';
+import { MinigameRegistry } from './Minigame';
+import { createRandom, simpleHash, Random } from '../lib/random';
+import { GameResultMessage, ReplayLog } from '@demolish-dash/protocol';
 
-export interface GameResult {
-  player_id: string;
-  player_name: string;
+// Pontos calculados no servidor (server/simulation/scoring.js), com a composição em breakdown
+export type GameResult = GameResultMessage;
+
+export type Standing = {
+  player: Player;
   rank: number;
-  points: number;
+  wins: number;
+  // null se o jogador não disputou nenhum jogo
+  averageRank: number | null;
+};
+
+// Critérios da classificação geral: pontos, depois mais vitórias, depois melhor posição média
+function compareStandings(a: Standing, b: Standing): number {
+  return (
+    b.player.total_score - a.player.total_score ||
+    b.wins - a.wins ||
+    (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity)
+  );
 }
-// 'tag_bomb', 'platform_push', 'boulder_run'
+
 export class GameManager {
-  static readonly AVAILABLE_GAMES = ['falling_tiles', 'tag_bomb', 'platform_push', 'boulder_run'];
+  // Quem entrou depois do início do jogo só assiste e entra no próximo
+  static getParticipants(session: GameSession, players: Player[]): Player[] {
+    if (session.participant_ids.length === 0) return players;
+    return players.filter((p) => session.participant_ids.includes(p.id));
+  }
 
-  static calculatePoints(rank: number, totalPlayers: number): number {
-    return totalPlayers - rank + 1;
+  static isParticipant(session: GameSession, playerId: string): boolean {
+    return session.participant_ids.length === 0 || session.participant_ids.includes(playerId);
   }
 
-  static async createGameSessions(roomId: string, maxGames: number): Promise<boolean> {
-    try {
-      const gameSessions = [];
+  // Sem repetição, a playlist tem no máximo um jogo de cada habilitado
+  static getPlaylistLength(settings: RoomSettings, maxGames: number): number {
+    if (settings.allowRepeats ?? true) return maxGames;
+    return Math.min(maxGames, this.getEnabledGames(settings).length);
+  }
 
-      for (let i = 1; i <= maxGames; i++) {
-        const randomGame = this.AVAILABLE_GAMES[Math.floor(Math.random() * this.AVAILABLE_GAMES.length)];
+  static getEnabledGames(settings: RoomSettings): string[] {
+    const registered = MinigameRegistry.getIds();
+    const enabled = (settings.enabledGames ?? registered).filter((id) => registered.includes(id));
+    return enabled.length > 0 ? enabled : registered;
+  }
 
-        gameSessions.push({
-          room_id: roomId,
-          game_type: randomGame,
-          game_number: i,
-        });
-      }
+  // Em ordem: percorre os jogos habilitados em ciclo. Sorteada: com repetição
+  // cada jogo é sorteado, sem repetição os habilitados são embaralhados
+  static buildPlaylist(settings: RoomSettings, maxGames: number, random: Random): string[] {
+    const games = this.getEnabledGames(settings);
+    const length = this.getPlaylistLength(settings, maxGames);
+
+    if (settings.playlistMode === 'ordered') {
+      return Array.from({ length }, (_, i) => games[i % games.length]);
+    }
+    if (!(settings.allowRepeats ?? true)) {
+      return random.shuffle(games).slice(0, length);
+    }
+    return Array.from({ length }, () => random.pick(games));
+  }
+
+  static async createGameSessions(roomId: string, maxGames: number, settings: RoomSettings = {}): Promise<boolean> {
+    try {
+      // Sorteio reproduzível: a mesma sala sempre gera a mesma sequência
+      const random = createRandom(simpleHash(roomId));
+      const gameSessions = this.buildPlaylist(settings, maxGames, random).map((gameType, index) => ({
+        room_id: roomId,
+        game_type: gameType,
+        game_number: index + 1,
+      }));
 
       await api.gameSessions.createBatch(gameSessions);
       return true;
@@ -62,47 +106,54 @@ export class GameManager {
     }
   }
 
-  static async startGame(gameId: string): Promise<boolean> {
+  // Devolve a sessão já com os participantes fixados pelo servidor
+  static async startGame(gameId: string): Promise<GameSession | null> {
     try {
-      await api.gameSessions.update(gameId, {
+      return await api.gameSessions.update(gameId, {
         status: 'active',
         started_at: new Date().toISOString(),
       });
-      return true;
     } catch (error) {
       console.error('Error starting game:', error);
-      return false;
+      return null;
     }
   }
 
-  static async completeGame(gameId: string, results: GameResult[]): Promise<boolean> {
+  // Resultados e pontuação são do servidor; a chamada apenas devolve a classificação atual
+  static async completeGame(gameId: string): Promise<Player[] | null> {
     try {
-      // Update game session
-      await api.gameSessions.update(gameId, {
-        status: 'completed',
-        results: results,
-        completed_at: new Date().toISOString(),
-      });
-
-      // Update player scores
-      for (const result of results) {
-        try {
-          const player = await api.players.getById(result.player_id);
-          await api.players.update(result.player_id, {
-            total_score: player.total_score + result.points,
-          });
-        } catch (error) {
-          console.error('Error updating player score:', error);
-        }
-      }
-
-      return true;
+      const { standings } = await api.gameSessions.complete(gameId);
+      return standings;
     } catch (error) {
       console.error('Error in completeGame:', error);
-      return false;
+      return null;
     }
   }
 
+  // Classificação com desempate; quem segue empatado em todos os critérios divide a posição
+  static rankStandings(players: Player[], games: GameSession[]): Standing[] {
+    const completedGames = games.filter((game) => game.status === 'completed');
+
+    const standings = players.map((player) => {
+      const ranks = completedGames
+        .map((game) => game.results.find((result) => result.player_id === player.id)?.rank)
+        .filter((rank): rank is number => rank !== undefined);
+      return {
+        player,
+        rank: 0,
+        wins: ranks.filter((rank) => rank === 1).length,
+        averageRank: ranks.length > 0 ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length : null,
+      };
+    });
+
+    standings.sort(compareStandings);
+    standings.forEach((standing, index) => {
+      const previous = standings[index - 1];
+      standing.rank = previous && compareStandings(previous, standing) === 0 ? previous.rank : index + 1;
+    });
+    return standings;
+  }
+
   static async getAllGames(roomId: string): Promise<GameSession[]> {
     try {
       const games = await api.gameSessions.getByRoom(roomId);
@@ -113,16 +164,32 @@ export class GameManager {
     }
   }
 
-  static subscribeToGames(roomId: string, callback: () => void) {
-    // Polling implementation to replace Supabase real-time
-    const intervalId = setInterval(() => {
-      callback();
-    }, 2000); // Poll every 2 seconds
+  static async getRoomHistory(roomCode: string): Promise<RoomHistory | null> {
+    try {
+      return await api.rooms.getHistory(roomCode);
+    } catch (error) {
+      console.error('Error fetching room history:', error);
+      return null;
+    }
+  }
+
+  static async getReplay(gameId: string): Promise<ReplayLog | null> {
+    try {
+      return await api.gameSessions.getReplay(gameId);
+    } catch (error) {
+      console.error('Error fetching replay:', error);
+      return null;
+    }
+  }
+
+  static subscribeToGames(roomId: string, onGameSessionStarted: (session: GameSession) => void) {
+    gameSocket.joinRoom(roomId);
+    gameSocket.onRoomEvent('game-session-started', onGameSessionStarted);
 
-    // Return an object with unsubscribe method
     return {
       unsubscribe: () => {
-        clearInterval(intervalId);
+        gameSocket.offRoomEvent('game-session-started', onGameSessionStarted);
+        gameSocket.leaveRoom(roomId);
       }
     };
   }
@@ -1,85 +1,274 @@
 import { io, Socket } from 'socket.io-client';
+import { GameResult } from './GameManager';
+import { Player, Room, GameSession, getPlayerToken } from '../lib/api';
+import {
+  PROTOCOL_VERSION,
+  applyGameDelta,
+  validateServerEvent,
+  ClientToServerEvents,
+  GameDelta,
+  GameEventMessage,
+  GameSnapshot,
+  GameSnapshotOf,
+  GameType,
+  HostChangedMessage,
+  PlayerConnectionMessage,
+  PlayerInputMessage,
+  PlayerLeftMessage,
+  ProtocolErrorMessage,
+  ServerEventName
+} from '@demolish-dash/protocol';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://demolishapi.lseux.dev.br';
 
+export type {
+  GameType,
+  GameSnapshotOf,
+  GameEventMessage,
+  GameEventOf,
+  PlayerSnapshot,
+  HostChangedMessage as HostChangedEvent
+} from '@demolish-dash/protocol';
+
+export type PlayerInput = Omit<PlayerInputMessage, 'seq'>;
+
+// Snapshot validado, marcado pelo cliente com performance.now() na chegada
+export type ReceivedSnapshot<K extends GameType = GameType> = GameSnapshotOf<K> & { receivedAt: number };
+
+export interface GameCompletedEvent {
+  gameSessionId: string;
+  results: GameResult[];
+}
+
+export interface RoomEvents {
+  'player-joined': (player: Player) => void;
+  'player-left': (data: PlayerLeftMessage) => void;
+  'player-updated': (player: Player) => void;
+  'room-status-changed': (room: Room) => void;
+  'game-session-started': (session: GameSession) => void;
+  'host-changed': (data: HostChangedMessage) => void;
+}
+
+type SnapshotListener = (snapshot: ReceivedSnapshot) => void;
+type GameEventListener = (event: GameEventMessage) => void;
+type ServerEventListener = (payload: never) => void;
+
 class GameSocketManager {
-  private socket: Socket | null = null;
+  private socket: Socket<Record<string, ServerEventListener>, ClientToServerEvents> | null = null;
   private gameSessionId: string | null = null;
+  private playerId?: string;
+  private roomId: string | null = null;
+  private roomSubscribers = 0;
+  private inputSeq = 0;
+  private snapshotListeners = new Set<SnapshotListener>();
+  private gameEventListeners = new Set<GameEventListener>();
+  // Último estado completo do jogo, base para aplicar os deltas
+  private lastSnapshot: GameSnapshot | null = null;
+  // Versões validadas dos callbacks, para que off() encontre o listener registrado
+  private validatedListeners = new WeakMap<ServerEventListener, (payload: unknown) => void>();
 
-  connect(gameSessionId: string, playerId?: string) {
-    if (this.socket?.connected && this.gameSessionId === gameSessionId) {
+  // Uma única conexão é compartilhada entre o canal da sala e o do jogo
+  private ensureSocket() {
+    if (this.socket) {
       return this.socket;
     }
 
-    this.disconnect();
+    // O token é lido a cada (re)conexão; é ele que identifica o jogador no servidor
+    const socket = io(API_BASE_URL, {
+      transports: ['websocket', 'polling'],
+      auth: (cb) => cb({ token: getPlayerToken(), protocolVersion: PROTOCOL_VERSION }),
+      // Reconexão com backoff exponencial (0,5s até 5s), sem limite de tentativas
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 500,
+      reconnectionDelayMax: 5000,
+      randomizationFactor: 0.5
+    });
 
-    this.socket = io(API_BASE_URL, {
-      transports: ['websocket', 'polling']
+    socket.on('connect', () => {
+      console.log('WebSocket connected');
+      // Reentrar nos canais após (re)conexão
+      if (this.roomId) {
+        socket.emit('join-room', { roomId: this.roomId, playerId: this.playerId });
+      }
+      if (this.gameSessionId) {
+        socket.emit('join-game', { gameSessionId: this.gameSessionId, playerId: this.playerId });
+      }
     });
 
-    this.gameSessionId = gameSessionId;
+    socket.on('game-snapshot', this.validated('game-snapshot', (snapshot: GameSnapshot) => {
+      this.dispatchSnapshot(snapshot);
+    }));
 
-    this.socket.on('connect', () => {
-      console.log('WebSocket connected');
-      this.socket?.emit('join-game', { gameSessionId, playerId });
+    // Deltas só valem sobre o snapshot do tick anterior; sem ele, espera-se o próximo completo
+    socket.on('game-delta', this.validated('game-delta', (delta: GameDelta) => {
+      const merged = this.lastSnapshot && applyGameDelta(this.lastSnapshot, delta);
+      if (!merged) return;
+
+      const error = validateServerEvent('game-snapshot', merged);
+      if (error) {
+        console.warn(`Rejected game-delta from server: ${error}`);
+        this.lastSnapshot = null;
+        return;
+      }
+      this.dispatchSnapshot(merged);
+    }));
+
+    socket.on('game-event', this.validated('game-event', (event: GameEventMessage) => {
+      if (event.gameSessionId !== this.gameSessionId) return;
+      this.gameEventListeners.forEach((listener) => listener(event));
+    }));
+
+    socket.on('protocol-error', this.validated('protocol-error', (data: ProtocolErrorMessage) => {
+      console.warn(`Server rejected ${data.event}: ${data.error}`);
+    }));
+
+    socket.on('connect_error', (error) => {
+      console.error('WebSocket connection error:', error.message);
     });
 
-    this.socket.on('disconnect', () => {
-      console.log('WebSocket disconnected');
+    socket.on('disconnect', (reason) => {
+      console.log('WebSocket disconnected:', reason);
+      // Desconexões pedidas pelo servidor não reconectam sozinhas
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
     });
 
-    return this.socket;
+    this.socket = socket;
+    return socket;
   }
 
-  disconnect() {
-    if (this.socket) {
+  // Cada snapshot é marcado com o horário de chegada antes de ser repassado
+  private dispatchSnapshot(snapshot: GameSnapshot) {
+    if (snapshot.gameSessionId !== this.gameSessionId) return;
+
+    this.lastSnapshot = snapshot;
+    const received = { ...snapshot, receivedAt: performance.now() };
+    this.snapshotListeners.forEach((listener) => listener(received));
+  }
+
+  // Mensagens fora do protocolo são descartadas (e registradas) antes de chegar ao callback
+  private validated<T>(event: ServerEventName, callback: (payload: T) => void) {
+    const key = callback as ServerEventListener;
+    let listener = this.validatedListeners.get(key);
+    if (!listener) {
+      listener = (payload: unknown) => {
+        const error = validateServerEvent(event, payload);
+        if (error) {
+          console.warn(`Rejected ${event} from server: ${error}`);
+          return;
+        }
+        callback(payload as T);
+      };
+      this.validatedListeners.set(key, listener);
+    }
+    return listener;
+  }
+
+  private closeIfIdle() {
+    if (this.socket && !this.roomId && !this.gameSessionId) {
       this.socket.disconnect();
       this.socket = null;
-      this.gameSessionId = null;
     }
   }
 
-  onPlayerStateChange(callback: (data: { playerId: string; position: { x: number; y: number }; hasBomb: boolean }) => void) {
-    if (this.socket) {
-      this.socket.on('player-state-changed', callback);
+  joinRoom(roomId: string, playerId?: string) {
+    if (this.roomId !== roomId) {
+      this.roomId = roomId;
+      this.roomSubscribers = 0;
+      if (playerId) this.playerId = playerId;
+
+      const socket = this.ensureSocket();
+      if (socket.connected) {
+        socket.emit('join-room', { roomId, playerId: this.playerId });
+      }
     }
+    this.roomSubscribers++;
   }
 
-  onGameStateChange(callback: (gameState: any) => void) {
-    if (this.socket) {
-      this.socket.on('game-state-changed', callback);
-    }
+  leaveRoom(roomId: string) {
+    if (this.roomId !== roomId) return;
+
+    this.roomSubscribers--;
+    if (this.roomSubscribers > 0) return;
+
+    this.socket?.emit('leave-room');
+    this.roomId = null;
+    this.roomSubscribers = 0;
+    this.closeIfIdle();
   }
 
-  offPlayerStateChange(callback?: any) {
-    if (this.socket) {
-      this.socket.off('player-state-changed', callback);
+  onRoomEvent<E extends keyof RoomEvents>(event: E, callback: RoomEvents[E]) {
+    this.socket?.on(event as string, this.validated(event, callback as ServerEventListener));
+  }
+
+  offRoomEvent<E extends keyof RoomEvents>(event: E, callback: RoomEvents[E]) {
+    this.socket?.off(event as string, this.validated(event, callback as ServerEventListener));
+  }
+
+  connect(gameSessionId: string, playerId?: string) {
+    if (this.socket && this.gameSessionId === gameSessionId) {
+      return this.socket;
     }
+
+    this.disconnect();
+
+    this.gameSessionId = gameSessionId;
+    if (playerId) this.playerId = playerId;
+    this.inputSeq = 0;
+    this.lastSnapshot = null;
+
+    const socket = this.ensureSocket();
+    if (socket.connected) {
+      socket.emit('join-game', { gameSessionId, playerId: this.playerId });
+    }
+
+    return socket;
   }
 
-  offGameStateChange(callback?: any) {
-    if (this.socket) {
-      this.socket.off('game-state-changed', callback);
+  disconnect() {
+    if (this.gameSessionId) {
+      this.socket?.emit('leave-game');
+      this.gameSessionId = null;
+      this.lastSnapshot = null;
     }
+    this.closeIfIdle();
   }
 
-  updatePlayerState(playerId: string, position: { x: number; y: number }, hasBomb: boolean) {
+  sendInput(input: PlayerInput): number {
     if (this.socket && this.gameSessionId) {
-      this.socket.emit('player-state-update', {
-        gameSessionId: this.gameSessionId,
-        playerId,
-        position,
-        hasBomb
-      });
+      this.inputSeq++;
+      this.socket.emit('player-input', { seq: this.inputSeq, ...input });
     }
+    return this.inputSeq;
   }
 
-  updateGameState(gameState: any) {
-    if (this.socket && this.gameSessionId) {
-      this.socket.emit('game-state-update', {
-        gameSessionId: this.gameSessionId,
-        gameState
-      });
+  onSnapshot(callback: SnapshotListener) {
+    this.snapshotListeners.add(callback);
+  }
+
+  offSnapshot(callback: SnapshotListener) {
+    this.snapshotListeners.delete(callback);
+  }
+
+  onGameEvent(callback: GameEventListener) {
+    this.gameEventListeners.add(callback);
+  }
+
+  offGameEvent(callback: GameEventListener) {
+    this.gameEventListeners.delete(callback);
+  }
+
+  onGameCompleted(callback: (data: GameCompletedEvent) => void) {
+    if (this.socket) {
+      this.socket.on('game-completed', this.validated('game-completed', callback));
+    }
+  }
+
+  offGameCompleted(callback: (data: GameCompletedEvent) => void) {
+    if (this.socket) {
+      this.socket.off('game-completed', this.validated('game-completed', callback));
     }
   }
 
@@ -87,18 +276,17 @@ class GameSocketManager {
     return this.socket?.connected || false;
   }
 
-  onPlayerDisconnected(callback: (data: { playerId: string; gameSessionId: string }) => void) {
+  onPlayerDisconnected(callback: (data: PlayerConnectionMessage) => void) {
     if (this.socket) {
-      this.socket.on('player-disconnected', callback);
+      this.socket.on('player-disconnected', this.validated('player-disconnected', callback));
     }
   }
 
-  offPlayerDisconnected(callback?: any) {
+  offPlayerDisconnected(callback: (data: PlayerConnectionMessage) => void) {
     if (this.socket) {
-      this.socket.off('player-disconnected', callback);
+      this.socket.off('player-disconnected', this.validated('player-disconnected', callback));
     }
   }
 }
 
 export const gameSocket = new GameSocketManager();
-
@@ -11,26 +11,57 @@ export interface GhostState {
   color: GhostColor;
   position: GhostPosition;
   velocity: { x: number; y: number };
+  knockback: { x: number; y: number };
   isDashing: boolean;
   dashCooldown: number;
   hasBomb: boolean;
 }
 
+export interface GhostBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Física em unidades (pixels do campo 800×600) por segundo; dt sempre em ms.
+// Os mesmos valores estão em server/simulation/ghost.js.
+export const GHOST_RADIUS = 20;
+export const BASE_SPEED = 180;
+export const DASH_SPEED = 480;
+export const ACCELERATION = 1800;
+export const FRICTION = 2400;
+// Decaimento exponencial do knockback, por segundo
+export const KNOCKBACK_DECAY = 6.3;
+export const DASH_DURATION = 500;
+export const DASH_COOLDOWN = 2000;
+
+function approach(current: number, target: number, maxDelta: number): number {
+  if (current < target) return Math.min(current + maxDelta, target);
+  return Math.max(current - maxDelta, target);
+}
+
+export function fieldBounds(width: number, height: number): GhostBounds {
+  return {
+    minX: GHOST_RADIUS,
+    minY: GHOST_RADIUS,
+    maxX: width - GHOST_RADIUS,
+    maxY: height - GHOST_RADIUS
+  };
+}
+
 export class Ghost {
   id: string;
   name: string;
   color: GhostColor;
   position: GhostPosition;
   velocity: { x: number; y: number };
+  knockback: { x: number; y: number };
   isDashing: boolean;
   dashCooldown: number;
   hasBomb: boolean;
 
-  private readonly baseSpeed = 3;
-  private readonly dashSpeed = 8;
-  private readonly dashDuration = 500;
-  private readonly dashCooldownTime = 2000;
-  private dashTimeout?: number;
+  private dashTime = 0;
 
   constructor(id: string, name: string, color: GhostColor, startX: number, startY: number) {
     this.id = id;
@@ -38,43 +69,80 @@ export class Ghost {
     this.color = color;
     this.position = { x: startX, y: startY };
     this.velocity = { x: 0, y: 0 };
+    this.knockback = { x: 0, y: 0 };
     this.isDashing = false;
     this.dashCooldown = 0;
     this.hasBomb = false;
   }
 
-  move(dx: number, dy: number, bounds: { width: number; height: number }) {
-    const speed = this.isDashing ? this.dashSpeed : this.baseSpeed;
-
+  /**
+   * Avança a física por `dt` ms: a velocidade acelera em direção a (dx, dy)
+   * ou freia com atrito sem input; no dash ela vai direto à velocidade máxima.
+   * O knockback é somado por cima e decai sozinho.
+   */
+  move(dx: number, dy: number, dt: number, bounds: GhostBounds) {
+    const seconds = dt / 1000;
     const magnitude = Math.sqrt(dx * dx + dy * dy);
+
     if (magnitude > 0) {
-      this.velocity.x = (dx / magnitude) * speed;
-      this.velocity.y = (dy / magnitude) * speed;
+      const speed = this.isDashing ? DASH_SPEED : BASE_SPEED;
+      const targetX = (dx / magnitude) * speed;
+      const targetY = (dy / magnitude) * speed;
+
+      if (this.isDashing) {
+        this.velocity.x = targetX;
+        this.velocity.y = targetY;
+      } else {
+        this.velocity.x = approach(this.velocity.x, targetX, ACCELERATION * seconds);
+        this.velocity.y = approach(this.velocity.y, targetY, ACCELERATION * seconds);
+      }
     } else {
+      this.velocity.x = approach(this.velocity.x, 0, FRICTION * seconds);
+      this.velocity.y = approach(this.velocity.y, 0, FRICTION * seconds);
+    }
+
+    this.position.x += (this.velocity.x + this.knockback.x) * seconds;
+    this.position.y += (this.velocity.y + this.knockback.y) * seconds;
+
+    const decay = Math.exp(-KNOCKBACK_DECAY * seconds);
+    this.knockback.x *= decay;
+    this.knockback.y *= decay;
+
+    if (this.position.x < bounds.minX || this.position.x > bounds.maxX) {
+      this.position.x = Math.max(bounds.minX, Math.min(bounds.maxX, this.position.x));
       this.velocity.x = 0;
+      this.knockback.x = 0;
+    }
+    if (this.position.y < bounds.minY || this.position.y > bounds.maxY) {
+      this.position.y = Math.max(bounds.minY, Math.min(bounds.maxY, this.position.y));
       this.velocity.y = 0;
+      this.knockback.y = 0;
     }
+  }
 
-    this.position.x += this.velocity.x;
-    this.position.y += this.velocity.y;
-
-    this.position.x = Math.max(20, Math.min(bounds.width - 20, this.position.x));
-    this.position.y = Math.max(20, Math.min(bounds.height - 20, this.position.y));
+  // Impulso em unidades por segundo (empurrões, explosões)
+  applyKnockback(x: number, y: number) {
+    this.knockback.x += x;
+    this.knockback.y += y;
   }
 
   activateDash() {
     if (this.dashCooldown <= 0 && !this.isDashing) {
       this.isDashing = true;
-      this.dashTimeout = window.setTimeout(() => {
-        this.isDashing = false;
-        this.dashCooldown = this.dashCooldownTime;
-      }, this.dashDuration);
+      this.dashTime = DASH_DURATION;
     }
   }
 
-  updateCooldown(deltaTime: number) {
-    if (this.dashCooldown > 0) {
-      this.dashCooldown = Math.max(0, this.dashCooldown - deltaTime);
+  updateDash(dt: number) {
+    if (this.isDashing) {
+      this.dashTime -= dt;
+      if (this.dashTime <= 0) {
+        this.isDashing = false;
+        this.dashTime = 0;
+        this.dashCooldown = DASH_COOLDOWN;
+      }
+    } else if (this.dashCooldown > 0) {
+      this.dashCooldown = Math.max(0, this.dashCooldown - dt);
     }
   }
 
@@ -91,17 +159,12 @@ export class Ghost {
       color: this.color,
       position: { ...this.position },
       velocity: { ...this.velocity },
+      knockback: { ...this.knockback },
       isDashing: this.isDashing,
       dashCooldown: this.dashCooldown,
       hasBomb: this.hasBomb
     };
   }
-
-  cleanup() {
-    if (this.dashTimeout) {
-      clearTimeout(this.dashTimeout);
-    }
-  }
 }
 
 export const GHOST_COLORS: GhostColor[] = [
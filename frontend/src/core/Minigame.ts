@@ -0,0 +1,88 @@
+import { ComponentType } from 'react';
+import { LucideIcon } from 'lucide-react';
+import { Player, RoomSettings } from '../lib/api';
+import { GameResult } from './GameManager';
+import { SnapshotSource } from './engine';
+
+// Props que todo componente de minigame recebe do App
+export interface MinigameProps {
+  players: Player[];
+  currentPlayerId: string;
+  gameSessionId: string;
+  onGameComplete: (results: GameResult[]) => void;
+  hostPlayerId: string | null;
+  // Parâmetros do jogo na sala (defaultSettings mais o que o host mudou)
+  settings: Record<string, number>;
+  // Espectador: o jogo é só desenhado, sem enviar inputs
+  spectating?: boolean;
+  // Replay: os snapshots vêm do log gravado em vez do socket
+  source?: SnapshotSource;
+}
+
+// Parâmetro ajustável pelo host; os limites são os mesmos de SETTINGS na simulação
+export interface MinigameSettingField<TSettings> {
+  key: keyof TSettings & string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  // Como o valor aparece no editor (padrão: 'ms', mostrado em segundos)
+  unit?: 'ms' | 'percent' | 'count' | 'px';
+  // Escolha entre opções: o valor é o índice na lista
+  options?: string[];
+}
+
+export interface MinigameDefinition<TSettings extends object = Record<string, number>> {
+  id: string;
+  name: string;
+  minPlayers: number;
+  maxPlayers: number;
+  component: ComponentType<MinigameProps>;
+  rules: string;
+  icon: LucideIcon;
+  defaultSettings: TSettings;
+  settingFields: MinigameSettingField<TSettings>[];
+}
+
+export class MinigameRegistry {
+  private static minigames = new Map<string, MinigameDefinition>();
+
+  static register(definition: MinigameDefinition) {
+    if (this.minigames.has(definition.id)) {
+      throw new Error(`Minigame already registered: ${definition.id}`);
+    }
+    this.minigames.set(definition.id, definition);
+  }
+
+  static get(id: string): MinigameDefinition | undefined {
+    return this.minigames.get(id);
+  }
+
+  static getAll(): MinigameDefinition[] {
+    return Array.from(this.minigames.values());
+  }
+
+  static getIds(): string[] {
+    return Array.from(this.minigames.keys());
+  }
+
+  // Padrões do jogo com os valores da sala, limitados às faixas de settingFields
+  static resolveSettings(id: string, roomSettings: RoomSettings | undefined): Record<string, number> {
+    const definition = this.minigames.get(id);
+    if (!definition) return {};
+
+    const overrides = roomSettings?.games?.[id] ?? {};
+    const settings: Record<string, number> = { ...definition.defaultSettings };
+    definition.settingFields.forEach(({ key, min, max }) => {
+      const value = overrides[key];
+      if (typeof value === 'number') {
+        settings[key] = Math.min(max, Math.max(min, value));
+      }
+    });
+    return settings;
+  }
+
+  static supportsPlayerCount(definition: MinigameDefinition, playerCount: number): boolean {
+    return playerCount >= definition.minPlayers && playerCount <= definition.maxPlayers;
+  }
+}
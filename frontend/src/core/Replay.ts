@@ -0,0 +1,146 @@
+import { applyGameDelta, GameEventMessage, GameSnapshot, ReplayEntry, ReplayLog } from '@demolish-dash/protocol';
+import { GameCompletedEvent, ReceivedSnapshot } from './GameSocket';
+import { GameResult } from './GameManager';
+import { SnapshotSource } from './engine';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Inputs e eventos de jogador do log (tudo o que não vai para o engine)
+export type ReplayPlayerEntry = Extract<ReplayEntry, { type: 'input' | 'event' }>;
+
+type SnapshotListener = (snapshot: ReceivedSnapshot) => void;
+type GameEventListener = (event: GameEventMessage) => void;
+type CompletedListener = (data: GameCompletedEvent) => void;
+type EntryListener = (entry: ReplayPlayerEntry) => void;
+
+const PLAYBACK_STEP_MS = 1000 / 60;
+
+/**
+ * Reproduz o log de replay de uma partida no lugar do socket: o
+ * MinigameEngine recebe os snapshots gravados no ritmo escolhido e, no fim
+ * do log, os resultados. O `elapsed` dos snapshots é trocado pelo relógio da
+ * reprodução, para a interpolação dos fantasmas seguir suave em qualquer
+ * velocidade.
+ */
+export class ReplayPlayer implements SnapshotSource {
+  private snapshotListeners = new Set<SnapshotListener>();
+  private gameEventListeners = new Set<GameEventListener>();
+  private completedListeners = new Set<CompletedListener>();
+  private entryListeners = new Set<EntryListener>();
+  private index = 0;
+  // Posição no tempo da partida, em ms
+  private gameTime = 0;
+  private lastSnapshot: GameSnapshot | null = null;
+  private interval: number | null = null;
+  private startedAt = 0;
+  private lastStepAt = 0;
+  private speed = 1;
+  private paused = false;
+
+  constructor(private log: ReplayLog, private gameSessionId: string, private results: GameResult[]) {}
+
+  get duration(): number {
+    const last = this.log.entries[this.log.entries.length - 1];
+    return last ? last.tick * this.log.tickMs : 0;
+  }
+
+  getTime(): number {
+    return Math.min(this.gameTime, this.duration);
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  connect() {
+    if (this.interval !== null) return;
+    this.startedAt = performance.now();
+    this.lastStepAt = this.startedAt;
+    this.interval = window.setInterval(this.step, PLAYBACK_STEP_MS);
+  }
+
+  disconnect() {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Replays não mandam inputs
+  sendInput(): number {
+    return 0;
+  }
+
+  onSnapshot(callback: SnapshotListener) {
+    this.snapshotListeners.add(callback);
+  }
+
+  offSnapshot(callback: SnapshotListener) {
+    this.snapshotListeners.delete(callback);
+  }
+
+  onGameEvent(callback: GameEventListener) {
+    this.gameEventListeners.add(callback);
+  }
+
+  offGameEvent(callback: GameEventListener) {
+    this.gameEventListeners.delete(callback);
+  }
+
+  onGameCompleted(callback: CompletedListener) {
+    this.completedListeners.add(callback);
+  }
+
+  offGameCompleted(callback: CompletedListener) {
+    this.completedListeners.delete(callback);
+  }
+
+  onEntry(callback: EntryListener) {
+    this.entryListeners.add(callback);
+  }
+
+  offEntry(callback: EntryListener) {
+    this.entryListeners.delete(callback);
+  }
+
+  private step = () => {
+    const now = performance.now();
+    if (!this.paused) {
+      this.gameTime += (now - this.lastStepAt) * this.speed;
+    }
+    this.lastStepAt = now;
+
+    const { entries, tickMs } = this.log;
+    // Vários ticks podem vencer no mesmo passo: só o estado mais recente é entregue
+    let snapshot: GameSnapshot | null = null;
+    while (this.index < entries.length && entries[this.index].tick * tickMs <= this.gameTime) {
+      const entry = entries[this.index++];
+      if (entry.type === 'snapshot') {
+        snapshot = entry.snapshot;
+      } else if (entry.type === 'delta') {
+        const base: GameSnapshot | null = snapshot ?? this.lastSnapshot;
+        snapshot = (base && applyGameDelta(base, entry.delta)) ?? snapshot;
+      } else if (entry.type === 'game-event') {
+        this.gameEventListeners.forEach((listener) => listener(entry.event));
+      } else {
+        this.entryListeners.forEach((listener) => listener(entry));
+      }
+    }
+
+    if (snapshot) {
+      this.lastSnapshot = snapshot;
+      const received = { ...snapshot, elapsed: now - this.startedAt, receivedAt: now };
+      this.snapshotListeners.forEach((listener) => listener(received));
+    }
+
+    if (this.index >= entries.length) {
+      this.disconnect();
+      const completed = { gameSessionId: this.gameSessionId, results: this.results };
+      this.completedListeners.forEach((listener) => listener(completed));
+    }
+  };
+}
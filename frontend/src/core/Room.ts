@@ -1,4 +1,14 @@
-import { api, Room as RoomType, Player } from '../lib/api';
+import { api, ApiError, Room as RoomType, RoomSettings, Player, ResumedSession, setPlayerToken } from '../lib/api';
+import { saveSession, loadSession, clearSession } from '../lib/session';
+import { gameSocket, RoomEvents, HostChangedEvent } from './GameSocket';
+
+export interface RoomEventHandlers {
+  onPlayerJoined?: (player: Player) => void;
+  onPlayerLeft?: (data: { roomId: string; playerId: string }) => void;
+  onPlayerUpdated?: (player: Player) => void;
+  onRoomStatusChanged?: (room: RoomType) => void;
+  onHostChanged?: (data: HostChangedEvent) => void;
+}
 
 export class RoomManager {
   static generateRoomCode(): string {
@@ -10,36 +20,33 @@ export class RoomManager {
     return code;
   }
 
-  static async createRoom(hostName: string, minPlayers: number, maxGames: number): Promise<{ room: RoomType; player: Player } | null> {
+  // Salas antigas, sem host_player_id, usam o primeiro jogador que entrou
+  static getHostId(room: RoomType, players: Player[]): string | null {
+    return room.host_player_id ?? players[0]?.id ?? null;
+  }
+
+  static async createRoom(hostName: string, minPlayers: number, maxGames: number, settings: RoomSettings): Promise<{ room: RoomType; player: Player } | null> {
     try {
       const roomCode = this.generateRoomCode();
+      const availableColors = ['blue', 'purple', 'pink', 'red', 'orange', 'yellow', 'green', 'cyan', 'white', 'gray'];
+      const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)];
 
-      const room = await api.rooms.create({
+      // O servidor cria a sala e o jogador host juntos e devolve o token do host
+      const { room, player, token } = await api.rooms.create({
         room_code: roomCode,
         host_name: hostName,
         min_players: minPlayers,
         max_games: maxGames,
-      });
-
-      if (!room) {
-        console.error('Error creating room');
-        return null;
-      }
-
-      const availableColors = ['blue', 'purple', 'pink', 'red', 'orange', 'yellow', 'green', 'cyan', 'white', 'gray'];
-      const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)];
-
-      const player = await api.players.create({
-        room_id: room.id,
-        player_name: hostName,
         ghost_color: randomColor,
+        settings,
       });
 
-      if (!player) {
-        console.error('Error creating player');
+      if (!room || !player) {
+        console.error('Error creating room');
         return null;
       }
 
+      saveSession({ playerId: player.id, token });
       return { room, player };
     } catch (error) {
       console.error('Error in createRoom:', error);
@@ -47,63 +54,111 @@ export class RoomManager {
     }
   }
 
+  // Com a sala em andamento o jogador entra como espectador e joga a partir do próximo jogo
   static async joinRoom(roomCode: string, playerName: string): Promise<{ room: RoomType; player: Player } | null> {
     try {
-      const roomCodeUpper = roomCode.trim().toUpperCase();
-      
-      if (!roomCodeUpper || roomCodeUpper.length !== 6) {
-        return null;
-      }
-      
-      const room = await api.rooms.getByCode(roomCodeUpper);
+      const room = await this.findRoom(roomCode);
 
-      if (!room) {
+      if (!room || room.status === 'finished') {
         return null;
       }
 
-      if (room.status !== 'waiting') {
-        return null;
-      }
+      return await this.addPlayer(room, playerName);
+    } catch (error) {
+      console.error('Error in joinRoom:', error);
+      return null;
+    }
+  }
 
-      const existingPlayers = await api.players.getByRoom(room.id);
+  // A mesma entrada de joinRoom, só aceita com a sala já em andamento
+  static async spectateRoom(roomCode: string, playerName: string): Promise<{ room: RoomType; player: Player } | null> {
+    try {
+      const room = await this.findRoom(roomCode);
 
-      if (!existingPlayers) {
-        console.error('Error fetching existing players');
+      if (!room || room.status !== 'playing') {
         return null;
       }
 
-      const usedColors = new Set(existingPlayers.map(p => p.ghost_color));
-      const availableColors = ['blue', 'purple', 'pink', 'red', 'orange', 'yellow', 'green', 'cyan', 'white', 'gray']
-        .filter(color => !usedColors.has(color));
+      return await this.addPlayer(room, playerName);
+    } catch (error) {
+      console.error('Error in spectateRoom:', error);
+      return null;
+    }
+  }
 
-      if (availableColors.length === 0) {
-        console.error('No available colors');
-        return null;
-      }
+  static getActivePlayers(players: Player[]): Player[] {
+    return players.filter((p) => !p.is_spectator);
+  }
 
-      if (existingPlayers.length >= 10) {
-        console.error('Room is full');
-        return null;
-      }
+  private static async findRoom(roomCode: string): Promise<RoomType | null> {
+    const roomCodeUpper = roomCode.trim().toUpperCase();
 
-      const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)];
+    if (!roomCodeUpper || roomCodeUpper.length !== 6) {
+      return null;
+    }
 
-      const player = await api.players.create({
-        room_id: room.id,
-        player_name: playerName,
-        ghost_color: randomColor,
-      });
+    const room = await api.rooms.getByCode(roomCodeUpper);
+    return room || null;
+  }
 
-      if (!player) {
-        console.error('Error creating player');
-        return null;
-      }
+  // O servidor decide se o jogador entra como espectador (sala em andamento). Espectadores
+  // também recebem uma cor: ela já fica reservada para quando virarem jogadores
+  private static async addPlayer(room: RoomType, playerName: string): Promise<{ room: RoomType; player: Player } | null> {
+    const existingPlayers = await api.players.getByRoom(room.id);
 
-      return { room, player };
-    } catch (error) {
-      console.error('Error in joinRoom:', error);
+    if (!existingPlayers) {
+      console.error('Error fetching existing players');
+      return null;
+    }
+
+    const usedColors = new Set(existingPlayers.map(p => p.ghost_color));
+    const availableColors = ['blue', 'purple', 'pink', 'red', 'orange', 'yellow', 'green', 'cyan', 'white', 'gray']
+      .filter(color => !usedColors.has(color));
+
+    if (availableColors.length === 0) {
+      console.error('No available colors');
+      return null;
+    }
+
+    if (existingPlayers.length >= 10) {
+      console.error('Room is full');
       return null;
     }
+
+    const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)];
+
+    const { player, token } = await api.players.create({
+      room_id: room.id,
+      player_name: playerName,
+      ghost_color: randomColor,
+    });
+
+    if (!player) {
+      console.error('Error creating player');
+      return null;
+    }
+
+    saveSession({ playerId: player.id, token });
+    return { room, player };
+  }
+
+  // Só um token recusado ou um jogador que não existe mais apagam a sessão guardada;
+  // falhas de rede ou do servidor (ex: no meio de um deploy) são repassadas, para tentar de novo
+  static async resumeSession(): Promise<ResumedSession | null> {
+    const stored = loadSession();
+    if (!stored) return null;
+
+    setPlayerToken(stored.token);
+    try {
+      return await api.players.getSession(stored.playerId);
+    } catch (error) {
+      console.error('Error resuming session:', error);
+      if (error instanceof ApiError && [401, 403, 404].includes(error.status)) {
+        clearSession();
+        return null;
+      }
+      throw error;
+    }
   }
 
   static async getPlayers(roomId: string): Promise<Player[]> {
@@ -140,16 +195,29 @@ export class RoomManager {
     }
   }
 
-  static subscribeToRoom(roomId: string, callback: () => void) {
-    // Polling implementation to replace Supabase real-time
-    const intervalId = setInterval(() => {
-      callback();
-    }, 1000); // Poll every 1 second
+  static subscribeToRoom(roomId: string, playerId: string | undefined, handlers: RoomEventHandlers) {
+    gameSocket.joinRoom(roomId, playerId);
+
+    const listeners: Partial<RoomEvents> = {
+      'player-joined': handlers.onPlayerJoined,
+      'player-left': handlers.onPlayerLeft,
+      'player-updated': handlers.onPlayerUpdated,
+      'room-status-changed': handlers.onRoomStatusChanged,
+      'host-changed': handlers.onHostChanged,
+    };
+
+    (Object.keys(listeners) as Array<keyof RoomEvents>).forEach((event) => {
+      const listener = listeners[event];
+      if (listener) gameSocket.onRoomEvent(event, listener);
+    });
 
-    // Return an object with unsubscribe method
     return {
       unsubscribe: () => {
-        clearInterval(intervalId);
+        (Object.keys(listeners) as Array<keyof RoomEvents>).forEach((event) => {
+          const listener = listeners[event];
+          if (listener) gameSocket.offRoomEvent(event, listener);
+        });
+        gameSocket.leaveRoom(roomId);
       }
     };
   }
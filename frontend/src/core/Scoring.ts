@@ -0,0 +1,37 @@
+import { ScoringSettings } from '../lib/api';
+import { ScoreBreakdown } from '@demolish-dash/protocol';
+
+// Textos das regras de pontuação; o cálculo fica em server/simulation/scoring.js
+export const SCORING_SYSTEMS: Array<{ id: NonNullable<ScoringSettings['system']>; name: string; description: string }> = [
+  { id: 'linear', name: 'Linear', description: 'Cada posição vale 1 ponto a mais que a seguinte; o último leva 1' },
+  { id: 'winner_takes_most', name: 'Vencedor leva mais', description: '10, 6, 3 e 1 pontos para os quatro primeiros' },
+];
+
+export const FEAT_BONUS_POINTS = 2;
+
+const FEAT_LABELS: Record<string, string> = {
+  longest_bomb_hold: 'Segurou a bomba por mais tempo',
+  most_pushes: 'Mais empurrões certeiros',
+};
+
+export function getFeatLabel(feat: string): string {
+  return FEAT_LABELS[feat] ?? feat;
+}
+
+// Uma linha por regra ativa, para o placar
+export function describeScoring(scoring: ScoringSettings = {}): string[] {
+  const system = SCORING_SYSTEMS.find((s) => s.id === scoring.system) ?? SCORING_SYSTEMS[0];
+  const lines = [`${system.name}: ${system.description}`];
+  if (scoring.doubleFinal) lines.push('Último jogo vale o dobro');
+  if (scoring.featBonuses) lines.push(`+${FEAT_BONUS_POINTS} por façanha no jogo`);
+  return lines;
+}
+
+// Ex: "6 × 2 + 2 (Mais empurrões certeiros)"
+export function describeBreakdown({ base, multiplier, bonuses }: ScoreBreakdown): string {
+  let text = multiplier > 1 ? `${base} × ${multiplier}` : `${base}`;
+  bonuses.forEach((bonus) => {
+    text += ` + ${bonus.points} (${getFeatLabel(bonus.feat)})`;
+  });
+  return text;
+}
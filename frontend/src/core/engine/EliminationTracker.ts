@@ -0,0 +1,25 @@
+/**
+ * Ordem das eliminações de uma partida, vinda dos snapshots. O ranking e os
+ * pontos são decididos no servidor (server/simulation/scoring.js).
+ */
+export class EliminationTracker {
+  private order: string[] = [];
+
+  eliminate(playerId: string) {
+    if (!this.order.includes(playerId)) {
+      this.order.push(playerId);
+    }
+  }
+
+  isEliminated(playerId: string): boolean {
+    return this.order.includes(playerId);
+  }
+
+  get count(): number {
+    return this.order.length;
+  }
+
+  getOrder(): string[] {
+    return [...this.order];
+  }
+}
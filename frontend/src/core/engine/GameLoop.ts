@@ -0,0 +1,61 @@
+// Passo fixo de 60Hz; as velocidades dos fantasmas (Ghost.move) são em px/s, escaladas pelo dt do passo
+export const FIXED_STEP_MS = 1000 / 60;
+// Evita a "espiral da morte" depois de a aba ficar em segundo plano
+const MAX_FRAME_MS = 250;
+
+export interface GameLoopCallbacks {
+  update: (dt: number) => void;
+  render: (alpha: number) => void;
+}
+
+/**
+ * Loop de passo fixo sobre requestAnimationFrame. `update` roda zero ou mais
+ * vezes por quadro com dt constante; `render` recebe a fração (0..1) entre o
+ * último passo e o próximo, para interpolar posições.
+ */
+export class GameLoop {
+  private frameId: number | null = null;
+  private lastTime = 0;
+  private accumulator = 0;
+
+  constructor(private callbacks: GameLoopCallbacks, private stepMs = FIXED_STEP_MS) {}
+
+  start() {
+    if (this.frameId !== null) return;
+    this.lastTime = 0;
+    this.accumulator = 0;
+    this.frameId = requestAnimationFrame(this.frame);
+  }
+
+  stop() {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.frameId !== null;
+  }
+
+  private frame = (timestamp: number) => {
+    if (this.lastTime === 0) {
+      this.lastTime = timestamp;
+    }
+
+    this.accumulator += Math.min(timestamp - this.lastTime, MAX_FRAME_MS);
+    this.lastTime = timestamp;
+
+    while (this.accumulator >= this.stepMs) {
+      this.callbacks.update(this.stepMs);
+      this.accumulator -= this.stepMs;
+    }
+
+    this.callbacks.render(this.accumulator / this.stepMs);
+
+    // update/render podem ter parado o loop (ex: fim de jogo)
+    if (this.frameId !== null) {
+      this.frameId = requestAnimationFrame(this.frame);
+    }
+  };
+}
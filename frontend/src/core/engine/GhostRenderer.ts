@@ -0,0 +1,44 @@
+import { Ghost, GHOST_RADIUS, getGhostColorHex } from '../Ghost';
+
+export interface GhostDrawOptions {
+  // Aura ao redor do fantasma (dash, empurrão...)
+  glow?: { radius: number; alpha: string } | null;
+  isHost?: boolean;
+  // Desenho extra por cima do fantasma (ex: a bomba)
+  decorate?: (ctx: CanvasRenderingContext2D, x: number, y: number) => void;
+}
+
+export function drawGhost(ctx: CanvasRenderingContext2D, ghost: Ghost, x: number, y: number, options: GhostDrawOptions = {}) {
+  const color = getGhostColorHex(ghost.color);
+
+  if (options.glow) {
+    ctx.save();
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 20;
+    ctx.fillStyle = color + options.glow.alpha;
+    ctx.beginPath();
+    ctx.arc(x, y, options.glow.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, GHOST_RADIUS, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(x - 6, y - 5, 4, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(x + 6, y - 5, 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  options.decorate?.(ctx, x, y);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(options.isHost ? `👑 ${ghost.name}` : ghost.name, x, y - 30);
+}
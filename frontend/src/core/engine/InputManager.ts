@@ -0,0 +1,75 @@
+export interface Direction {
+  dx: number;
+  dy: number;
+}
+
+const ACTION_KEYS = new Set([' ', 'shift']);
+const BRACE_KEYS = new Set(['e', 'enter']);
+
+/**
+ * Teclado dos minigames: WASD/setas para direção, Espaço/Shift como ação
+ * (dash ou empurrão) e E/Enter para firmar.
+ */
+export class InputManager {
+  private keysPressed = new Set<string>();
+  private actionListeners: Array<() => void> = [];
+
+  attach() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.keysPressed.clear();
+    this.actionListeners = [];
+  }
+
+  onAction(listener: () => void) {
+    this.actionListeners.push(listener);
+  }
+
+  isPressed(key: string): boolean {
+    return this.keysPressed.has(key.toLowerCase());
+  }
+
+  isActionHeld(): boolean {
+    return Array.from(ACTION_KEYS).some((key) => this.keysPressed.has(key));
+  }
+
+  isBracing(): boolean {
+    return Array.from(BRACE_KEYS).some((key) => this.keysPressed.has(key));
+  }
+
+  getDirection(): Direction {
+    let dx = 0;
+    let dy = 0;
+    if (this.isPressed('w') || this.isPressed('arrowup')) dy -= 1;
+    if (this.isPressed('s') || this.isPressed('arrowdown')) dy += 1;
+    if (this.isPressed('a') || this.isPressed('arrowleft')) dx -= 1;
+    if (this.isPressed('d') || this.isPressed('arrowright')) dx += 1;
+    return { dx, dy };
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    const wasPressed = this.keysPressed.has(key);
+    this.keysPressed.add(key);
+
+    if (ACTION_KEYS.has(key) && !wasPressed) {
+      this.actionListeners.forEach((listener) => listener());
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.keysPressed.delete(e.key.toLowerCase());
+  };
+
+  // Teclas soltas com a janela sem foco não geram keyup
+  private handleBlur = () => {
+    this.keysPressed.clear();
+  };
+}
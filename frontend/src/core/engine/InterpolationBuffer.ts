@@ -0,0 +1,55 @@
+import { GhostPosition } from '../Ghost';
+
+interface Sample {
+  time: number;
+  position: GhostPosition;
+}
+
+// Amostras mais velhas que isso (em ms de servidor) são descartadas
+const BUFFER_WINDOW_MS = 1000;
+
+/**
+ * Histórico de posições de uma entidade remota, indexado pelo tempo do
+ * servidor. Em vez de pular para o snapshot mais recente, a entidade é
+ * desenhada um pouco no passado, interpolando entre os dois snapshots que
+ * cercam o instante pedido.
+ */
+export class InterpolationBuffer {
+  private samples: Sample[] = [];
+
+  push(time: number, position: GhostPosition) {
+    const last = this.samples[this.samples.length - 1];
+    if (last && time <= last.time) return;
+
+    this.samples.push({ time, position: { ...position } });
+    while (this.samples.length > 2 && this.samples[0].time < time - BUFFER_WINDOW_MS) {
+      this.samples.shift();
+    }
+  }
+
+  // Sem amostras depois de `time`, a entidade fica na última posição conhecida
+  sample(time: number): GhostPosition | null {
+    if (this.samples.length === 0) return null;
+
+    const first = this.samples[0];
+    if (time <= first.time) return { ...first.position };
+
+    for (let i = 1; i < this.samples.length; i++) {
+      const to = this.samples[i];
+      if (time > to.time) continue;
+
+      const from = this.samples[i - 1];
+      const t = (time - from.time) / (to.time - from.time);
+      return {
+        x: from.position.x + (to.position.x - from.position.x) * t,
+        y: from.position.y + (to.position.y - from.position.y) * t
+      };
+    }
+
+    return { ...this.samples[this.samples.length - 1].position };
+  }
+
+  clear() {
+    this.samples = [];
+  }
+}
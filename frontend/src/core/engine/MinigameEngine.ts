@@ -0,0 +1,323 @@
+import { Player } from '../../lib/api';
+import { Ghost, GhostBounds, GhostColor, GhostPosition, fieldBounds } from '../Ghost';
+import {
+  gameSocket,
+  GameCompletedEvent,
+  GameEventMessage,
+  GameEventOf,
+  GameType,
+  PlayerInput,
+  PlayerSnapshot,
+  ReceivedSnapshot
+} from '../GameSocket';
+import { GameResult } from '../GameManager';
+import { GameLoop } from './GameLoop';
+import { InputManager } from './InputManager';
+import { EliminationTracker } from './EliminationTracker';
+import { drawGhost, GhostDrawOptions } from './GhostRenderer';
+import { InterpolationBuffer } from './InterpolationBuffer';
+
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+
+const INPUT_SEND_INTERVAL = 50;
+// Fantasmas remotos são desenhados esse tanto no passado (pouco mais de 3 ticks do servidor)
+const INTERPOLATION_DELAY = 100;
+// Erro de previsão acima disso é corrigido na hora; abaixo, some aos poucos
+const SNAP_DISTANCE = 60;
+const CORRECTION_DECAY = 0.85;
+// Passos previstos guardados à espera de confirmação (2s a 60Hz)
+const MAX_PENDING_STEPS = 120;
+
+interface PredictedStep {
+  // Último input enviado quando o passo foi simulado
+  seq: number;
+  dx: number;
+  dy: number;
+  dt: number;
+}
+
+// De onde vêm os snapshots: o socket do jogo ou, num replay, o log gravado
+export interface SnapshotSource {
+  connect(gameSessionId: string, playerId?: string): void;
+  disconnect(): void;
+  sendInput(input: PlayerInput): number;
+  onSnapshot(callback: (snapshot: ReceivedSnapshot) => void): void;
+  offSnapshot(callback: (snapshot: ReceivedSnapshot) => void): void;
+  onGameEvent(callback: (event: GameEventMessage) => void): void;
+  offGameEvent(callback: (event: GameEventMessage) => void): void;
+  onGameCompleted(callback: (data: GameCompletedEvent) => void): void;
+  offGameCompleted(callback: (data: GameCompletedEvent) => void): void;
+}
+
+export interface MinigameEngineOptions<TGame extends GameType> {
+  canvas: HTMLCanvasElement;
+  // Snapshots de outro tipo de jogo são ignorados
+  gameType: TGame;
+  gameSessionId: string;
+  currentPlayerId: string;
+  // Só acompanha os snapshots: sem teclado nem envio de inputs
+  spectating?: boolean;
+  // Padrão: gameSocket
+  source?: SnapshotSource;
+  getPlayers: () => Player[];
+  getHostId: () => string | null;
+  onComplete: (results: GameResult[]) => void;
+  // Desenho do quadro; normalmente fundo, cenário e depois drawGhosts(alpha)
+  render: (ctx: CanvasRenderingContext2D, alpha: number) => void;
+  onSnapshot?: (snapshot: ReceivedSnapshot<TGame>) => void;
+  // Eventos pontuais do jogo (explosões...), chegam antes do snapshot do mesmo tick
+  onGameEvent?: (event: GameEventOf<TGame>) => void;
+  // Efeito local imediato da tecla de ação (o servidor recebe o input de qualquer forma)
+  onAction?: () => void;
+  // Limites de movimento do jogador local, se diferentes do campo inteiro
+  getMovementBounds?: () => GhostBounds;
+  // Enquanto true, a previsão do jogador local ignora as setas (ex: atordoado)
+  isMovementLocked?: () => boolean;
+  // Colisão do jogador local com o cenário após cada passo previsto, inclusive
+  // os refeitos na reconciliação (ex: rochas que o servidor também resolve)
+  collideLocalGhost?: (ghost: Ghost) => void;
+}
+
+/**
+ * Base comum dos minigames no cliente: canvas 800×600, teclado, envio de
+ * inputs, snapshots do servidor, loop de passo fixo e desenho dos fantasmas.
+ * O jogador local é previsto e, a cada snapshot, refeito a partir da posição
+ * do servidor com os passos que ele ainda não confirmou (`lastInputSeq`); os
+ * demais são interpolados entre snapshots. Cada jogo só cuida do seu estado
+ * específico e do cenário.
+ */
+export class MinigameEngine<TGame extends GameType> {
+  readonly ctx: CanvasRenderingContext2D;
+  readonly width = CANVAS_WIDTH;
+  readonly height = CANVAS_HEIGHT;
+  readonly input = new InputManager();
+  readonly eliminations = new EliminationTracker();
+  readonly ghosts = new Map<string, Ghost>();
+
+  private readonly loop: GameLoop;
+  private readonly source: SnapshotSource;
+  private previousPositions = new Map<string, GhostPosition>();
+  private remoteBuffers = new Map<string, InterpolationBuffer>();
+  // performance.now() menos o tempo do servidor, pelo snapshot mais rápido recebido
+  private serverTimeOffset: number | null = null;
+  private pendingSteps: PredictedStep[] = [];
+  private lastSentSeq = 0;
+  private correction: GhostPosition = { x: 0, y: 0 };
+  private inputInterval: number | null = null;
+  private completed = false;
+
+  constructor(private options: MinigameEngineOptions<TGame>) {
+    const ctx = options.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context not available');
+    }
+
+    options.canvas.width = CANVAS_WIDTH;
+    options.canvas.height = CANVAS_HEIGHT;
+    this.ctx = ctx;
+    this.source = options.source ?? gameSocket;
+
+    this.loop = new GameLoop({
+      update: (dt) => this.update(dt),
+      render: (alpha) => this.options.render(this.ctx, alpha)
+    });
+  }
+
+  start() {
+    const { gameSessionId, currentPlayerId, spectating } = this.options;
+
+    this.source.connect(gameSessionId, currentPlayerId);
+
+    if (!spectating) {
+      this.input.attach();
+      this.input.onAction(() => {
+        this.options.onAction?.();
+        this.lastSentSeq = this.source.sendInput(this.readInput(true));
+      });
+
+      this.inputInterval = window.setInterval(() => {
+        this.lastSentSeq = this.source.sendInput(this.readInput(false));
+      }, INPUT_SEND_INTERVAL);
+    }
+
+    this.source.onSnapshot(this.handleSnapshot);
+    this.source.onGameEvent(this.handleGameEvent);
+    this.source.onGameCompleted(this.handleGameCompleted);
+
+    this.loop.start();
+  }
+
+  destroy() {
+    this.loop.stop();
+    this.input.detach();
+    if (this.inputInterval !== null) {
+      clearInterval(this.inputInterval);
+      this.inputInterval = null;
+    }
+    this.source.offSnapshot(this.handleSnapshot);
+    this.source.offGameEvent(this.handleGameEvent);
+    this.source.offGameCompleted(this.handleGameCompleted);
+    this.source.disconnect();
+  }
+
+  getLocalGhost(): Ghost | undefined {
+    return this.ghosts.get(this.options.currentPlayerId);
+  }
+
+  // Tecla de firmar segurada pelo jogador local
+  isBracing(): boolean {
+    return !this.options.spectating && this.input.isBracing();
+  }
+
+  isAlive(playerId: string): boolean {
+    return this.ghosts.has(playerId) && !this.eliminations.isEliminated(playerId);
+  }
+
+  // Posição entre o passo anterior e o atual, mais o erro de previsão ainda não absorvido
+  getRenderPosition(ghost: Ghost, alpha: number): GhostPosition {
+    const previous = this.previousPositions.get(ghost.id) ?? ghost.position;
+    const offset = ghost.id === this.options.currentPlayerId ? this.correction : { x: 0, y: 0 };
+    return {
+      x: previous.x + (ghost.position.x - previous.x) * alpha + offset.x,
+      y: previous.y + (ghost.position.y - previous.y) * alpha + offset.y
+    };
+  }
+
+  drawGhosts(alpha: number, getOptions?: (ghost: Ghost) => GhostDrawOptions) {
+    const hostId = this.options.getHostId();
+
+    this.ghosts.forEach((ghost) => {
+      if (this.eliminations.isEliminated(ghost.id)) return;
+      const { x, y } = this.getRenderPosition(ghost, alpha);
+      drawGhost(this.ctx, ghost, x, y, { isHost: ghost.id === hostId, ...getOptions?.(ghost) });
+    });
+  }
+
+  private readInput(action: boolean): PlayerInput {
+    return {
+      ...this.input.getDirection(),
+      action,
+      holding: this.input.isActionHeld(),
+      bracing: this.input.isBracing()
+    };
+  }
+
+  private update(dt: number) {
+    this.ghosts.forEach((ghost) => {
+      this.previousPositions.set(ghost.id, { ...ghost.position });
+    });
+
+    const localGhost = this.getLocalGhost();
+    if (localGhost && this.isAlive(localGhost.id)) {
+      const { dx, dy } = this.options.isMovementLocked?.() ? { dx: 0, dy: 0 } : this.input.getDirection();
+      localGhost.move(dx, dy, dt, this.getMovementBounds());
+      this.options.collideLocalGhost?.(localGhost);
+      localGhost.updateDash(dt);
+
+      this.pendingSteps.push({ seq: this.lastSentSeq, dx, dy, dt });
+      if (this.pendingSteps.length > MAX_PENDING_STEPS) {
+        this.pendingSteps.shift();
+      }
+    }
+
+    this.correction.x *= CORRECTION_DECAY;
+    this.correction.y *= CORRECTION_DECAY;
+
+    if (this.serverTimeOffset !== null) {
+      const renderTime = performance.now() - this.serverTimeOffset - INTERPOLATION_DELAY;
+      this.remoteBuffers.forEach((buffer, playerId) => {
+        const ghost = this.ghosts.get(playerId);
+        const position = buffer.sample(renderTime);
+        if (!ghost || !position) return;
+        ghost.position.x = position.x;
+        ghost.position.y = position.y;
+      });
+    }
+  }
+
+  private getMovementBounds(): GhostBounds {
+    return this.options.getMovementBounds?.() ?? fieldBounds(this.width, this.height);
+  }
+
+  // Volta à posição do servidor e refaz os passos que ele ainda não processou
+  private reconcileLocalGhost(ghost: Ghost, playerSnapshot: PlayerSnapshot) {
+    const predicted = { ...ghost.position };
+
+    this.pendingSteps = this.pendingSteps.filter((step) => step.seq > playerSnapshot.lastInputSeq);
+
+    ghost.position.x = playerSnapshot.x;
+    ghost.position.y = playerSnapshot.y;
+    ghost.velocity = { ...playerSnapshot.velocity };
+    ghost.knockback = { ...playerSnapshot.knockback };
+
+    const bounds = this.getMovementBounds();
+    this.pendingSteps.forEach((step) => {
+      ghost.move(step.dx, step.dy, step.dt, bounds);
+      this.options.collideLocalGhost?.(ghost);
+    });
+
+    const errorX = predicted.x - ghost.position.x;
+    const errorY = predicted.y - ghost.position.y;
+    if (Math.sqrt(errorX * errorX + errorY * errorY) > SNAP_DISTANCE) {
+      this.correction = { x: 0, y: 0 };
+      this.previousPositions.set(ghost.id, { ...ghost.position });
+    } else {
+      this.correction.x += errorX;
+      this.correction.y += errorY;
+    }
+  }
+
+  private applyPlayerSnapshot(playerSnapshot: PlayerSnapshot, serverTime: number) {
+    let ghost = this.ghosts.get(playerSnapshot.id);
+    if (!ghost) {
+      const player = this.options.getPlayers().find((p) => p.id === playerSnapshot.id);
+      if (!player) return;
+      ghost = new Ghost(player.id, player.player_name, player.ghost_color as GhostColor, playerSnapshot.x, playerSnapshot.y);
+      this.ghosts.set(player.id, ghost);
+    }
+
+    ghost.hasBomb = playerSnapshot.hasBomb;
+
+    if (playerSnapshot.eliminated) {
+      this.eliminations.eliminate(playerSnapshot.id);
+    }
+
+    if (playerSnapshot.id === this.options.currentPlayerId) {
+      this.reconcileLocalGhost(ghost, playerSnapshot);
+    } else {
+      ghost.isDashing = playerSnapshot.isDashing;
+      let buffer = this.remoteBuffers.get(playerSnapshot.id);
+      if (!buffer) {
+        buffer = new InterpolationBuffer();
+        this.remoteBuffers.set(playerSnapshot.id, buffer);
+      }
+      buffer.push(serverTime, { x: playerSnapshot.x, y: playerSnapshot.y });
+    }
+  }
+
+  private handleSnapshot = (received: ReceivedSnapshot) => {
+    if (received.gameSessionId !== this.options.gameSessionId || received.gameType !== this.options.gameType) return;
+    const snapshot = received as ReceivedSnapshot<TGame>;
+
+    const offset = snapshot.receivedAt - snapshot.elapsed;
+    if (this.serverTimeOffset === null || offset < this.serverTimeOffset) {
+      this.serverTimeOffset = offset;
+    }
+
+    snapshot.players.forEach((playerSnapshot) => this.applyPlayerSnapshot(playerSnapshot, snapshot.elapsed));
+    this.options.onSnapshot?.(snapshot);
+  };
+
+  private handleGameEvent = (event: GameEventMessage) => {
+    if (event.gameSessionId !== this.options.gameSessionId || event.gameType !== this.options.gameType) return;
+    this.options.onGameEvent?.(event as GameEventOf<TGame>);
+  };
+
+  private handleGameCompleted = (data: GameCompletedEvent) => {
+    if (data.gameSessionId !== this.options.gameSessionId || this.completed) return;
+    this.completed = true;
+    this.loop.stop();
+    this.options.onComplete(data.results);
+  };
+}
@@ -0,0 +1,11 @@
+export { GameLoop, FIXED_STEP_MS } from './GameLoop';
+export type { GameLoopCallbacks } from './GameLoop';
+export { InputManager } from './InputManager';
+export type { Direction } from './InputManager';
+export { EliminationTracker } from './EliminationTracker';
+export { InterpolationBuffer } from './InterpolationBuffer';
+export { drawGhost } from './GhostRenderer';
+export { GHOST_RADIUS } from '../Ghost';
+export type { GhostDrawOptions } from './GhostRenderer';
+export { MinigameEngine, CANVAS_WIDTH, CANVAS_HEIGHT } from './MinigameEngine';
+export type { MinigameEngineOptions, SnapshotSource } from './MinigameEngine';
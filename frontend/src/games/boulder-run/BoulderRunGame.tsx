@@ -1,284 +1,169 @@
 import { useEffect, useRef, useState } from 'react';
-import { Player } from '../../lib/api';
-import { Ghost, getGhostColorHex } from '../../core/Ghost';
-import { gameSocket } from '../../core/GameSocket';
-
-interface BoulderRunGameProps {
-  players: Player[];
-  currentPlayerId: string;
-  gameSessionId: string;
-  onGameComplete: (results: Array<{ player_id: string; player_name: string; rank: number; points: number }>) => void;
-}
-
-interface Boulder {
-  x: number;
-  y: number;
-  radius: number;
-  speed: number;
-}
-
-interface GameState {
-  ghosts: Map<string, Ghost>;
-  eliminatedPlayers: string[];
-  boulders: Boulder[];
-  gameCompleted: boolean;
+import { MinigameProps } from '../../core/Minigame';
+import { MinigameEngine, GHOST_RADIUS, CANVAS_WIDTH, CANVAS_HEIGHT } from '../../core/engine';
+import { Ghost, fieldBounds } from '../../core/Ghost';
+import { BoulderKind, BoulderPattern, BoulderRunState, TerrainSnapshot } from '@demolish-dash/protocol';
+import { Shield, TrendingUp, Waves } from 'lucide-react';
+
+// Mesmo valor de server/simulation/boulderWaves.js
+const LANE_COUNT = 5;
+const LANE_DASH = 30;
+
+const BOULDER_COLORS: Record<BoulderKind, string> = {
+  normal: '#4b5563',
+  bouncer: '#0e7490',
+  splitter: '#7c2d12',
+};
+
+const PATTERN_LABELS: Record<BoulderPattern, string> = {
+  rain: 'Chuva de pedras',
+  zigzag: 'Zigue-zague',
+  wall: 'Paredão',
+  splitter: 'Pedras que racham',
+};
+
+const FIELD_BOUNDS = fieldBounds(CANVAS_WIDTH, CANVAS_HEIGHT);
+
+// Mesma resolução de pushOutOfRect em server/simulation/BoulderRunSimulation.js:
+// tira o fantasma de dentro da rocha pelo lado mais próximo
+function pushOutOfRock(ghost: Ghost, rock: TerrainSnapshot) {
+  const { position } = ghost;
+  const closestX = Math.max(rock.x, Math.min(rock.x + rock.width, position.x));
+  const closestY = Math.max(rock.y, Math.min(rock.y + rock.height, position.y));
+  const dx = position.x - closestX;
+  const dy = position.y - closestY;
+  const distanceSquared = dx * dx + dy * dy;
+  if (distanceSquared >= GHOST_RADIUS * GHOST_RADIUS) return;
+
+  if (distanceSquared > 0) {
+    const distance = Math.sqrt(distanceSquared);
+    position.x += (dx / distance) * (GHOST_RADIUS - distance);
+    position.y += (dy / distance) * (GHOST_RADIUS - distance);
+  } else {
+    const exits = [
+      { axis: 'x' as const, to: rock.x - GHOST_RADIUS, depth: position.x - rock.x },
+      { axis: 'x' as const, to: rock.x + rock.width + GHOST_RADIUS, depth: rock.x + rock.width - position.x },
+      { axis: 'y' as const, to: rock.y - GHOST_RADIUS, depth: position.y - rock.y },
+      { axis: 'y' as const, to: rock.y + rock.height + GHOST_RADIUS, depth: rock.y + rock.height - position.y },
+    ];
+    const exit = exits.reduce((best, option) => (option.depth < best.depth ? option : best));
+    position[exit.axis] = exit.to;
+  }
+
+  position.x = Math.max(FIELD_BOUNDS.minX, Math.min(FIELD_BOUNDS.maxX, position.x));
+  position.y = Math.max(FIELD_BOUNDS.minY, Math.min(FIELD_BOUNDS.maxY, position.y));
 }
 
-export default function BoulderRunGame({ players, currentPlayerId, gameSessionId, onGameComplete }: BoulderRunGameProps) {
+export default function BoulderRunGame({ players, currentPlayerId, gameSessionId, onGameComplete, hostPlayerId, spectating, source }: MinigameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
-  const keysPressed = useRef<Set<string>>(new Set());
-  const lastSpawnRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
+  const playersRef = useRef(players);
+  const hostIdRef = useRef(hostPlayerId);
+  const onGameCompleteRef = useRef(onGameComplete);
   const [eliminatedCount, setEliminatedCount] = useState(0);
-  const gameStateRef = useRef<GameState | null>(null);
+  const [wave, setWave] = useState(1);
+  const [pattern, setPattern] = useState<BoulderPattern>('rain');
+  const [difficulty, setDifficulty] = useState(1);
+  // Segundos de escudo do jogador local; 0 sem escudo
+  const [shield, setShield] = useState(0);
+
+  playersRef.current = players;
+  hostIdRef.current = hostPlayerId;
+  onGameCompleteRef.current = onGameComplete;
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    canvas.width = 800;
-    canvas.height = 600;
-
-    const ghosts = new Map<string, Ghost>();
-    const startY = canvas.height - 80;
-    const spacing = canvas.width / (players.length + 1);
 
-    players.forEach((p, i) => {
-      const x = spacing * (i + 1);
-      const y = startY;
-      const ghost = new Ghost(p.id, p.player_name, p.ghost_color as any, x, y);
-      ghost.velocity.x = 0;
-      ghost.velocity.y = 0;
-      ghosts.set(p.id, ghost);
-    });
-
-    gameStateRef.current = {
-      ghosts,
-      eliminatedPlayers: [],
-      boulders: [],
-      gameCompleted: false
-    };
-
-    const onKeyDown = (e: KeyboardEvent) => keysPressed.current.add(e.key.toLowerCase());
-    const onKeyUp = (e: KeyboardEvent) => keysPressed.current.delete(e.key.toLowerCase());
-    window.addEventListener('keydown', onKeyDown);
-    window.addEventListener('keyup', onKeyUp);
-
-    const spawnBoulder = () => {
-      const radius = Math.random() * 25 + 20;
-      gameStateRef.current?.boulders.push({
-        x: Math.random() * (canvas.width - radius * 2) + radius,
-        y: -radius,
-        radius,
-        speed: Math.random() * 1.5 + 1
-      });
-    };
-
-    const loop = (t: number) => {
-      if (!gameStateRef.current) return;
-
-      if (lastTimeRef.current === 0) {
-        lastTimeRef.current = t;
-        animationRef.current = requestAnimationFrame(loop);
-        return;
-      }
-
-      const dt = t - lastTimeRef.current;
-      lastTimeRef.current = t;
-
-      if (t - lastSpawnRef.current > 800) {
-        spawnBoulder();
-        lastSpawnRef.current = t;
-      }
-
-      const state = gameStateRef.current;
-      const canvasW = canvas.width;
-      const canvasH = canvas.height;
-
-      const currentGhost = state.ghosts.get(currentPlayerId);
-      if (currentGhost && !state.eliminatedPlayers.includes(currentPlayerId)) {
-        let dx = 0;
-        let dy = 0;
-        if (keysPressed.current.has('a') || keysPressed.current.has('arrowleft')) dx -= 1;
-        if (keysPressed.current.has('d') || keysPressed.current.has('arrowright')) dx += 1;
-        if (keysPressed.current.has('w') || keysPressed.current.has('arrowup')) dy -= 1;
-        if (keysPressed.current.has('s') || keysPressed.current.has('arrowdown')) dy += 1;
-
-        currentGhost.move(dx, dy, { width: canvasW, height: canvasH });
-      }
-
-      state.ghosts.forEach((g) => {
-        if (g.id !== currentPlayerId && !state.eliminatedPlayers.includes(g.id)) {
-          g.position.x += g.velocity.x;
-          g.position.y += g.velocity.y;
+    let course: BoulderRunState | null = null;
+
+    // Percurso, pedras e colisões vêm do servidor; só as rochas do terreno
+    // também bloqueiam a previsão do jogador local
+    const engine: MinigameEngine<'boulder_run'> = new MinigameEngine({
+      canvas,
+      gameType: 'boulder_run',
+      gameSessionId,
+      currentPlayerId,
+      spectating,
+      source,
+      getPlayers: () => playersRef.current,
+      getHostId: () => hostIdRef.current,
+      onComplete: (results) => onGameCompleteRef.current(results),
+      collideLocalGhost: (ghost) => {
+        course?.terrain.forEach((rock) => pushOutOfRock(ghost, rock));
+      },
+      onSnapshot: (snapshot) => {
+        course = snapshot.state;
+        setWave(course.wave);
+        setPattern(course.pattern);
+        setDifficulty(course.difficulty);
+        setShield(Math.ceil((course.shields[currentPlayerId] ?? 0) / 1000));
+        setEliminatedCount(engine.eliminations.count);
+      },
+      render: (ctx, alpha) => {
+        ctx.fillStyle = '#0f172a';
+        ctx.fillRect(0, 0, engine.width, engine.height);
+
+        if (!course) {
+          engine.drawGhosts(alpha);
+          return;
         }
-        g.velocity.x *= 0.9;
-        g.velocity.y *= 0.9;
-      });
-
-      state.boulders.forEach((b) => {
-        b.y += b.speed * dt * 0.05;
-      });
-
-      state.boulders = state.boulders.filter((b) => b.y - b.radius < canvasH);
-
-      state.ghosts.forEach((ghost) => {
-        if (state.eliminatedPlayers.includes(ghost.id)) return;
-
-        for (const b of state.boulders) {
-          const dx = ghost.position.x - b.x;
-          const dy = ghost.position.y - b.y;
-          if (dx * dx + dy * dy <= (b.radius + 20) * (b.radius + 20)) {
-            state.eliminatedPlayers.push(ghost.id);
-            setEliminatedCount(state.eliminatedPlayers.length);
-
-            gameSocket.updateGameState({
-              eliminated_players: state.eliminatedPlayers
-            });
-          }
+        const { boulders, terrain, pickups, shields, scroll } = course;
+
+        // Divisórias das faixas, tracejadas e rolando com o percurso
+        const laneWidth = engine.width / LANE_COUNT;
+        ctx.strokeStyle = '#1e293b';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([LANE_DASH, LANE_DASH]);
+        ctx.lineDashOffset = -(scroll % (LANE_DASH * 2));
+        for (let lane = 1; lane < LANE_COUNT; lane++) {
+          ctx.beginPath();
+          ctx.moveTo(lane * laneWidth, 0);
+          ctx.lineTo(lane * laneWidth, engine.height);
+          ctx.stroke();
         }
-      });
-
-      const alive = [...state.ghosts.values()].filter(
-        (g) => !state.eliminatedPlayers.includes(g.id)
-      );
-
-      if (alive.length === 1 && !state.gameCompleted) {
-        state.gameCompleted = true;
-
-        const total = players.length;
-        const results: any[] = [];
-
-        const winner = alive[0];
-        results.push({
-          player_id: winner.id,
-          player_name: winner.name,
-          rank: 1,
-          points: total
+        ctx.setLineDash([]);
+
+        terrain.forEach((rock) => {
+          ctx.fillStyle = '#57534e';
+          ctx.fillRect(rock.x, rock.y, rock.width, rock.height);
+          ctx.strokeStyle = '#292524';
+          ctx.lineWidth = 3;
+          ctx.strokeRect(rock.x, rock.y, rock.width, rock.height);
         });
 
-        const eliminated = [...state.eliminatedPlayers].reverse();
-        eliminated.forEach((id, i) => {
-          const ghost = state.ghosts.get(id);
-          if (ghost)
-            results.push({
-              player_id: ghost.id,
-              player_name: ghost.name,
-              rank: i + 2,
-              points: total - (i + 1)
-            });
+        pickups.forEach((pickup) => {
+          ctx.fillStyle = '#22d3ee';
+          ctx.beginPath();
+          ctx.arc(pickup.x, pickup.y, pickup.radius, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = '#0f172a';
+          ctx.font = 'bold 14px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.fillText('S', pickup.x, pickup.y + 5);
         });
 
-        const known = new Set(results.map((r) => r.player_id));
-        players.forEach((p) => {
-          if (!known.has(p.id))
-            results.push({
-              player_id: p.id,
-              player_name: p.player_name,
-              rank: total,
-              points: 1
-            });
+        boulders.forEach((b) => {
+          ctx.fillStyle = BOULDER_COLORS[b.kind];
+          ctx.beginPath();
+          ctx.arc(b.x, b.y, b.radius, 0, Math.PI * 2);
+          ctx.fill();
         });
 
-        results.sort((a, b) => a.rank - b.rank);
-
-        gameSocket.updateGameState({
-          eliminated_players: state.eliminatedPlayers,
-          game_completed: true,
-          results
-        });
-
-        if (animationRef.current) cancelAnimationFrame(animationRef.current);
-        onGameComplete(results);
-        return;
-      }
-
-      ctx.fillStyle = '#0f172a';
-      ctx.fillRect(0, 0, canvasW, canvasH);
-
-      state.boulders.forEach((b) => {
-        ctx.fillStyle = '#4b5563';
-        ctx.beginPath();
-        ctx.arc(b.x, b.y, b.radius, 0, Math.PI * 2);
-        ctx.fill();
-      });
-
-      state.ghosts.forEach((ghost) => {
-        if (state.eliminatedPlayers.includes(ghost.id)) return;
-        const color = getGhostColorHex(ghost.color);
-        ctx.fillStyle = color;
-        ctx.beginPath();
-        ctx.arc(ghost.position.x, ghost.position.y, 20, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = '#ffffff';
-        ctx.beginPath();
-        ctx.arc(ghost.position.x - 6, ghost.position.y - 5, 4, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.beginPath();
-        ctx.arc(ghost.position.x + 6, ghost.position.y - 5, 4, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = '#ffffff';
-        ctx.font = 'bold 12px sans-serif';
-        ctx.textAlign = 'center';
-        ctx.fillText(ghost.name, ghost.position.x, ghost.position.y - 30);
-      });
-
-      animationRef.current = requestAnimationFrame(loop);
-    };
-
-    animationRef.current = requestAnimationFrame(loop);
-
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      window.removeEventListener('keydown', onKeyDown);
-      window.removeEventListener('keyup', onKeyUp);
-      gameStateRef.current?.ghosts.forEach((g) => g.cleanup());
-    };
-  }, []);
-
-  useEffect(() => {
-    gameSocket.connect(gameSessionId, currentPlayerId);
-
-    const interval = setInterval(() => {
-      if (!gameStateRef.current) return;
-      const ghost = gameStateRef.current.ghosts.get(currentPlayerId);
-      if (!ghost) return;
-      gameSocket.updatePlayerState(currentPlayerId, {
-        x: ghost.position.x,
-        y: ghost.position.y,
-      }, false);
-    }, 50);
-
-    const onPlayerChange = (data: any) => {
-      if (!gameStateRef.current || data.playerId === currentPlayerId) return;
-      const g = gameStateRef.current.ghosts.get(data.playerId);
-      if (g) {
-        g.position.x = data.position.x;
-        g.position.y = data.position.y;
-      }
-    };
-
-    const onGameChange = (data: any) => {
-      if (!gameStateRef.current) return;
-      if (data.eliminated_players) {
-        gameStateRef.current.eliminatedPlayers = data.eliminated_players;
-        setEliminatedCount(data.eliminated_players.length);
+        engine.drawGhosts(alpha, (ghost) => ({
+          decorate: shields[ghost.id] ? (c, x, y) => {
+            c.strokeStyle = '#22d3ee';
+            c.lineWidth = 3;
+            c.beginPath();
+            c.arc(x, y, 28, 0, Math.PI * 2);
+            c.stroke();
+          } : undefined
+        }));
       }
-    };
-
-    gameSocket.onPlayerStateChange(onPlayerChange);
-    gameSocket.onGameStateChange(onGameChange);
+    });
 
-    return () => {
-      clearInterval(interval);
-      gameSocket.disconnect();
-    };
-  }, []);
+    engine.start();
+    return () => engine.destroy();
+  }, [currentPlayerId, gameSessionId, spectating, source]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-blue-800 flex flex-col items-center justify-center p-4">
@@ -289,6 +174,29 @@ export default function BoulderRunGame({ players, currentPlayerId, gameSessionId
 
       <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20 mb-4">
         <div className="flex items-center gap-6">
+          <div className="flex items-center gap-3">
+            <Waves className="w-8 h-8 text-purple-300" />
+            <div>
+              <p className="text-purple-200 text-sm">Onda {wave}</p>
+              <p className="text-white text-lg font-bold">{PATTERN_LABELS[pattern]}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <TrendingUp className="w-8 h-8 text-orange-400" />
+            <div>
+              <p className="text-purple-200 text-sm">Dificuldade</p>
+              <p className="text-white text-2xl font-bold">{difficulty.toFixed(1)}×</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Shield className={`w-8 h-8 ${shield > 0 ? 'text-cyan-400' : 'text-gray-500'}`} />
+            <div>
+              <p className="text-purple-200 text-sm">Escudo</p>
+              <p className="text-white text-lg font-bold">{shield > 0 ? `${shield}s` : '—'}</p>
+            </div>
+          </div>
 
           <div>
             <p className="text-purple-200 text-sm">Eliminados</p>
@@ -304,7 +212,7 @@ export default function BoulderRunGame({ players, currentPlayerId, gameSessionId
 
       <div className="mt-4 bg-white/10 backdrop-blur-lg rounded-xl p-4 border border-white/20">
         <p className="text-purple-200 text-sm text-center">
-          <span className="font-bold">Controles:</span> WASD ou Setas para mover • Espaço ou Shift + Direção para Empurrar
+          <span className="font-bold">Controles:</span> WASD ou Setas para mover • Pegue o escudo (S) para aguentar uma pedra
         </p>
       </div>
     </div>
@@ -0,0 +1,21 @@
+import { Mountain } from 'lucide-react';
+import { MinigameDefinition } from '../../core/Minigame';
+import BoulderRunGame from './BoulderRunGame';
+
+export const boulderRun: MinigameDefinition = {
+  id: 'boulder_run',
+  name: 'Fugir das pedras!',
+  minPlayers: 2,
+  maxPlayers: 10,
+  component: BoulderRunGame,
+  rules: 'Desvie das pedras que rolam pela tela e das rochas do caminho, que esmagam quem ficar preso embaixo. As ondas ficam mais rápidas com o tempo; o escudo aguenta uma pedra. O último vivo vence.',
+  icon: Mountain,
+  defaultSettings: {
+    spawnIntervalMs: 800,
+    difficultyRampMs: 30000,
+  },
+  settingFields: [
+    { key: 'spawnIntervalMs', label: 'Intervalo entre pedras', min: 300, max: 1500, step: 100 },
+    { key: 'difficultyRampMs', label: 'Dificuldade +100% a cada', min: 15000, max: 60000, step: 5000 },
+  ],
+};
@@ -0,0 +1,21 @@
+import { Grid3x3 } from 'lucide-react';
+import { MinigameDefinition } from '../../core/Minigame';
+import FallingTilesGame from './FallingTilesGame';
+
+export const fallingTiles: MinigameDefinition = {
+  id: 'falling_tiles',
+  name: 'Piso que Cai',
+  minPlayers: 2,
+  maxPlayers: 10,
+  component: FallingTilesGame,
+  rules: 'Fuja dos blocos que vão cair. Último vivo vence.',
+  icon: Grid3x3,
+  defaultSettings: {
+    spawnIntervalMs: 1400,
+    warningMs: 1000,
+  },
+  settingFields: [
+    { key: 'spawnIntervalMs', label: 'Intervalo entre quedas', min: 600, max: 2400, step: 200 },
+    { key: 'warningMs', label: 'Aviso antes de cair', min: 400, max: 2000, step: 100 },
+  ],
+};
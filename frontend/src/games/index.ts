@@ -0,0 +1,11 @@
+import { MinigameRegistry } from '../core/Minigame';
+import { fallingTiles } from './falling_tiles';
+import { tagBomb } from './tag-bomb';
+import { platformPush } from './platform-push';
+import { boulderRun } from './boulder-run';
+
+// Um novo minigame é um módulo em src/games/ mais uma linha aqui
+MinigameRegistry.register(fallingTiles);
+MinigameRegistry.register(tagBomb);
+MinigameRegistry.register(platformPush);
+MinigameRegistry.register(boulderRun);
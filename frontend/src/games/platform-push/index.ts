@@ -0,0 +1,25 @@
+import { Hand } from 'lucide-react';
+import { MinigameDefinition } from '../../core/Minigame';
+import PlatformPushGame from './PlatformPushGame';
+
+export const platformPush: MinigameDefinition = {
+  id: 'platform_push',
+  name: 'Empurra na Plataforma!',
+  minPlayers: 2,
+  maxPlayers: 10,
+  component: PlatformPushGame,
+  rules: 'Fique na plataforma! Segure a ação para carregar o empurrão e solte com uma direção; firme (E) para ficar pesado e difícil de empurrar. Quem cair é eliminado. De tempos em tempos a borda pisca e cai, e os para-choques giratórios arremessam quem encostar.',
+  icon: Hand,
+  defaultSettings: {
+    pushCooldownMs: 2000,
+    arenaShape: 0,
+    shrinkIntervalMs: 15000,
+    obstacleCount: 2,
+  },
+  settingFields: [
+    { key: 'pushCooldownMs', label: 'Recarga do empurrão', min: 1000, max: 4000, step: 250 },
+    { key: 'arenaShape', label: 'Formato da plataforma', min: 0, max: 2, step: 1, options: ['Retângulo', 'Círculo', 'Cruz'] },
+    { key: 'shrinkIntervalMs', label: 'Borda cai a cada', min: 8000, max: 30000, step: 1000 },
+    { key: 'obstacleCount', label: 'Para-choques giratórios', min: 0, max: 4, step: 1, unit: 'count' },
+  ],
+};
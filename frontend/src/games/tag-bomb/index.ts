@@ -0,0 +1,29 @@
+import { Bomb } from 'lucide-react';
+import { MinigameDefinition } from '../../core/Minigame';
+import TagBombGame from './TagBombGame';
+
+export const tagBomb: MinigameDefinition = {
+  id: 'tag_bomb',
+  name: 'Pega-Pega Bomba!',
+  minPlayers: 2,
+  maxPlayers: 10,
+  component: TagBombGame,
+  rules: 'Não deixe a bomba explodir com você! Encoste em outro fantasma para passar a bomba. A cada rodada os pavios ficam mais curtos e, na morte súbita, a arena encolhe. A explosão leva junto quem estiver perto e atordoa quem estiver em volta.',
+  icon: Bomb,
+  defaultSettings: {
+    bombFuseMs: 30000,
+    fuseDecayPercent: 15,
+    playersPerBomb: 4,
+    fuseMode: 0,
+    suddenDeathMs: 90000,
+    blastRadius: 60,
+  },
+  settingFields: [
+    { key: 'bombFuseMs', label: 'Pavio da 1ª rodada', min: 10000, max: 60000, step: 5000 },
+    { key: 'fuseDecayPercent', label: 'Pavio mais curto a cada rodada', min: 0, max: 50, step: 5, unit: 'percent' },
+    { key: 'playersPerBomb', label: 'Uma bomba a cada N jogadores vivos', min: 2, max: 10, step: 1, unit: 'count' },
+    { key: 'fuseMode', label: 'Pavio', min: 0, max: 2, step: 1, options: ['Visível', 'Escondido', 'Aleatório'] },
+    { key: 'suddenDeathMs', label: 'Morte súbita depois de', min: 30000, max: 180000, step: 15000 },
+    { key: 'blastRadius', label: 'Raio da explosão', min: 0, max: 150, step: 10, unit: 'px' },
+  ],
+};
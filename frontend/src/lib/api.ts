@@ -1,5 +1,26 @@
+import { GameResultMessage, ReplayLog } from '@demolish-dash/protocol';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://demolishapi.lseux.dev.br';
 
+export type ScoringSettings = {
+  system?: 'linear' | 'winner_takes_most';
+  // Pontos base em dobro no último jogo da sala
+  doubleFinal?: boolean;
+  // +2 para quem fez a façanha do jogo (ex: segurou a bomba por mais tempo)
+  featBonuses?: boolean;
+};
+
+// rooms.settings; campos ausentes (salas antigas) usam os padrões: todos os
+// jogos, sorteio com repetição e os defaultSettings de cada minigame
+export type RoomSettings = {
+  enabledGames?: string[];
+  playlistMode?: 'shuffle' | 'ordered';
+  allowRepeats?: boolean;
+  scoring?: ScoringSettings;
+  // Parâmetros por jogo, pelo id do minigame
+  games?: Record<string, Record<string, number>>;
+};
+
 export type Room = {
   id: string;
   room_code: string;
@@ -7,6 +28,8 @@ export type Room = {
   min_players: number;
   max_games: number;
   status: 'waiting' | 'playing' | 'finished';
+  host_player_id: string | null;
+  settings: RoomSettings;
   created_at: string;
   updated_at: string;
 };
@@ -17,6 +40,8 @@ export type Player = {
   player_name: string;
   ghost_color: string;
   total_score: number;
+  // Entrou com a sala em andamento; vira jogador quando o próximo jogo é ativado
+  is_spectator: boolean;
   joined_at: string;
 };
 
@@ -26,16 +51,78 @@ export type GameSession = {
   game_type: string;
   game_number: number;
   status: 'pending' | 'active' | 'completed';
-  results: Array<{ player_id: string; player_name: string; rank: number; points: number }>;
+  results: GameResultMessage[];
+  seed: number;
+  // Jogadores que disputam a partida, fixados no início; vazio em sessões antigas
+  participant_ids: string[];
+  started_at: string | null;
+  completed_at: string | null;
+};
+
+export type PlayerSession = {
+  player: Player;
+  token: string;
+};
+
+export type ResumedSession = {
+  player: Player;
+  room: Room;
+  app_state: 'lobby' | 'playing' | 'scoreboard' | 'final';
+  game_session: GameSession | null;
+};
+
+export type GameSessionCompletion = {
+  session: GameSession;
+  standings: Player[];
+  already_completed: boolean;
+};
+
+export type HistoryGame = {
+  id: string;
+  game_type: string;
+  game_number: number;
+  results: GameResultMessage[];
+  participant_ids: string[];
   started_at: string | null;
   completed_at: string | null;
+  duration_ms: number | null;
+  // Só jogos simulados no servidor têm replay
+  has_replay: boolean;
+};
+
+export type RoomHistory = {
+  room: Room;
+  players: Player[];
+  games: HistoryGame[];
 };
 
+// Token assinado pelo servidor que identifica o jogador atual
+let playerToken: string | null = null;
+
+export function setPlayerToken(token: string | null) {
+  playerToken = token;
+}
+
+export function getPlayerToken(): string | null {
+  return playerToken;
+}
+
+// Erro HTTP da API, com o status para quem precisa distinguir (ex: token recusado)
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
 async function request<T>(endpoint: string, options?: RequestInit): Promise<T> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(playerToken ? { Authorization: `Bearer ${playerToken}` } : {}),
       ...options?.headers,
     },
   });
@@ -43,10 +130,10 @@ async function request<T>(endpoint: string, options?: RequestInit): Promise<T> {
   if (!response.ok) {
     if (response.status === 404) {
       const error = await response.json().catch(() => ({ error: 'Not found' }));
-      throw new Error(error.error || 'Not found');
+      throw new ApiError(error.error || 'Not found', response.status);
     }
     const error = await response.json().catch(() => ({ error: response.statusText }));
-    throw new Error(error.error || `HTTP error! status: ${response.status}`);
+    throw new ApiError(error.error || `HTTP error! status: ${response.status}`, response.status);
   }
 
   return response.json();
@@ -54,8 +141,8 @@ async function request<T>(endpoint: string, options?: RequestInit): Promise<T> {
 
 export const api = {
   rooms: {
-    create: (data: { host_name: string; min_players: number; max_games: number; room_code: string }): Promise<Room> =>
-      request<Room>('/api/rooms', {
+    create: (data: { host_name: string; min_players: number; max_games: number; room_code: string; ghost_color: string; settings: RoomSettings }): Promise<PlayerSession & { room: Room }> =>
+      request<PlayerSession & { room: Room }>('/api/rooms', {
         method: 'POST',
         body: JSON.stringify(data),
       }),
@@ -63,6 +150,9 @@ export const api = {
     getByCode: (roomCode: string): Promise<Room> =>
       request<Room>(`/api/rooms/${roomCode}`),
 
+    getHistory: (roomCode: string): Promise<RoomHistory> =>
+      request<RoomHistory>(`/api/rooms/${roomCode}/history`),
+
     update: (roomId: string, data: { status?: 'waiting' | 'playing' | 'finished' }): Promise<Room> =>
       request<Room>(`/api/rooms/${roomId}`, {
         method: 'PATCH',
@@ -71,8 +161,8 @@ export const api = {
   },
 
   players: {
-    create: (data: { room_id: string; player_name: string; ghost_color: string }): Promise<Player> =>
-      request<Player>('/api/players', {
+    create: (data: { room_id: string; player_name: string; ghost_color: string }): Promise<PlayerSession> =>
+      request<PlayerSession>('/api/players', {
         method: 'POST',
         body: JSON.stringify(data),
       }),
@@ -80,14 +170,11 @@ export const api = {
     getById: (playerId: string): Promise<Player> =>
       request<Player>(`/api/players/${playerId}`),
 
+    getSession: (playerId: string): Promise<ResumedSession> =>
+      request<ResumedSession>(`/api/players/${playerId}/session`),
+
     getByRoom: (roomId: string): Promise<Player[]> =>
       request<Player[]>(`/api/rooms/${roomId}/players`),
-
-    update: (playerId: string, data: { total_score?: number }): Promise<Player> =>
-      request<Player>(`/api/players/${playerId}`, {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }),
   },
 
   gameSessions: {
@@ -109,16 +196,24 @@ export const api = {
     getByRoom: (roomId: string, status?: string): Promise<GameSession[]> =>
       request<GameSession[]>(`/api/rooms/${roomId}/game-sessions${status ? `?status=${status}` : ''}`),
 
+    getReplay: (sessionId: string): Promise<ReplayLog> =>
+      request<ReplayLog>(`/api/game-sessions/${sessionId}/replay`),
+
+    // Só ativa a sessão; resultados e conclusão passam por `complete`
     update: (sessionId: string, data: {
-      status?: 'pending' | 'active' | 'completed';
-      results?: Array<{ player_id: string; player_name: string; rank: number; points: number }>;
+      status?: 'active';
       started_at?: string;
-      completed_at?: string;
     }): Promise<GameSession> =>
       request<GameSession>(`/api/game-sessions/${sessionId}`, {
         method: 'PATCH',
         body: JSON.stringify(data),
       }),
+
+    // Os resultados vêm da simulação do servidor; a resposta traz a classificação
+    complete: (sessionId: string): Promise<GameSessionCompletion> =>
+      request<GameSessionCompletion>(`/api/game-sessions/${sessionId}/complete`, {
+        method: 'POST',
+      }),
   },
 };
 
@@ -0,0 +1,51 @@
+// Mesmo gerador de server/simulation/random.js (mulberry32): a mesma semente
+// produz a mesma sequência no cliente e no servidor.
+
+export interface Random {
+  seed: number;
+  next: () => number;
+  range: (min: number, max: number) => number;
+  int: (max: number) => number;
+  pick: <T>(items: T[]) => T;
+  shuffle: <T>(items: T[]) => T[];
+}
+
+export function simpleHash(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  // Número em [0, 1), como Math.random()
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (max) => Math.floor(next() * max),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    // Fisher-Yates numa cópia
+    shuffle: (items) => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    }
+  };
+}
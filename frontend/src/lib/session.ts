@@ -0,0 +1,32 @@
+import { setPlayerToken } from './api';
+
+// Sessão do jogador guardada no navegador para retomar a partida após recarregar
+const SESSION_STORAGE_KEY = 'demolish-dash:session';
+
+export type StoredSession = {
+  playerId: string;
+  token: string;
+};
+
+export function saveSession(session: StoredSession) {
+  setPlayerToken(session.token);
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export function loadSession(): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw);
+    if (typeof session?.playerId !== 'string' || typeof session?.token !== 'string') return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSession() {
+  setPlayerToken(null);
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
@@ -0,0 +1,313 @@
+export declare const PROTOCOL_VERSION: number;
+
+export type GameType = 'tag_bomb' | 'platform_push' | 'boulder_run' | 'falling_tiles';
+
+export declare const GAME_TYPES: GameType[];
+
+// Cliente → servidor
+
+export interface JoinRoomMessage {
+  roomId: string;
+  playerId?: string | null;
+}
+
+export interface JoinGameMessage {
+  gameSessionId: string;
+  playerId?: string | null;
+}
+
+export interface PlayerInputMessage {
+  seq: number;
+  dx: number;
+  dy: number;
+  // Tecla de ação apertada neste input (borda)
+  action: boolean;
+  // Tecla de ação ainda segurada (empurrão carregado)
+  holding: boolean;
+  // Tecla de firmar segurada (Platform Push)
+  bracing: boolean;
+}
+
+export interface ClientToServerEvents {
+  'join-room': (message: JoinRoomMessage) => void;
+  'leave-room': () => void;
+  'join-game': (message: JoinGameMessage) => void;
+  'leave-game': () => void;
+  'player-input': (message: PlayerInputMessage) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+
+// Estado específico de cada minigame nos snapshots
+
+export interface TagBombSnapshot {
+  id: number;
+  holderId: string;
+  // null com o pavio escondido ou aleatório
+  timer: number | null;
+}
+
+export interface TagBombState {
+  round: number;
+  bombs: TagBombSnapshot[];
+  // Tempo até as bombas da próxima rodada; 0 durante a rodada
+  roundBreak: number;
+  // Tempo até a morte súbita; 0 depois que ela começa
+  suddenDeathIn: number;
+  // Arena encolhendo na morte súbita; null antes dela
+  arena: { x: number; y: number; width: number; height: number } | null;
+}
+
+export type PlatformShape = 'rectangle' | 'circle' | 'cross';
+
+// Forma da plataforma dentro da caixa (x, y, width, height)
+export interface PlatformArena {
+  shape: PlatformShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PlatformPushState {
+  platform: PlatformArena;
+  // Tamanho da plataforma depois da próxima queda de borda, durante o aviso; null fora dele
+  crumbling: PlatformArena | null;
+  // Tempo até a borda cair; 0 sem aviso
+  crumbleIn: number;
+  obstacles: Array<{ id: number; x: number; y: number; radius: number }>;
+  pushing: string[];
+  // Tempo de carga de quem está segurando o empurrão
+  charging: Record<string, number>;
+  bracing: string[];
+  pushCooldowns: Record<string, number>;
+}
+
+// 'bouncer' quica nas laterais; 'splitter' se parte em dois 'bouncer'
+export type BoulderKind = 'normal' | 'bouncer' | 'splitter';
+
+export interface BoulderSnapshot {
+  id: number;
+  kind: BoulderKind;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Rocha do terreno: bloco sólido descendo com o percurso
+export interface TerrainSnapshot {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PickupSnapshot {
+  id: number;
+  kind: 'shield';
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export type BoulderPattern = 'rain' | 'zigzag' | 'wall' | 'splitter';
+
+export interface BoulderRunState {
+  boulders: BoulderSnapshot[];
+  terrain: TerrainSnapshot[];
+  pickups: PickupSnapshot[];
+  // Tempo restante de escudo de cada jogador protegido
+  shields: Record<string, number>;
+  // Número da onda (1, 2, ...) e o padrão dela no roteiro
+  wave: number;
+  pattern: BoulderPattern;
+  // Multiplicador de velocidade e frequência, de 1 a 3
+  difficulty: number;
+  // Distância percorrida pelo percurso, para o chão rolar no cliente
+  scroll: number;
+}
+
+// Pisos 'safe' não aparecem no snapshot
+export type TileSnapshotStatus = 'warning' | 'fallen' | 'removed';
+
+export interface FallingTilesState {
+  tiles: Array<{ id: string; status: TileSnapshotStatus }>;
+}
+
+export interface GameStates {
+  tag_bomb: TagBombState;
+  platform_push: PlatformPushState;
+  boulder_run: BoulderRunState;
+  falling_tiles: FallingTilesState;
+}
+
+// Eventos pontuais de cada minigame, enviados em 'game-event' no tick em que
+// acontecem (antes do snapshot desse tick)
+
+export interface TagBombExplosionEvent {
+  type: 'explosion';
+  bombId: number;
+  // Quem segurava a bomba; centro da explosão
+  holderId: string;
+  x: number;
+  y: number;
+  // Até `radius` o fantasma é eliminado; até `stunRadius`, atordoado
+  radius: number;
+  stunRadius: number;
+  // Eliminados pela explosão, além do portador
+  eliminated: string[];
+  // Atordoados (parados) por `stunMs` e arremessados para longe
+  stunned: string[];
+  stunMs: number;
+  // Bomba que explodiu porque o portador foi pego por outra explosão
+  chainedFrom: number | null;
+}
+
+export interface GameEvents {
+  tag_bomb: TagBombExplosionEvent;
+  platform_push: never;
+  boulder_run: never;
+  falling_tiles: never;
+}
+
+// Servidor → cliente
+
+export interface PlayerSnapshot {
+  id: string;
+  x: number;
+  y: number;
+  velocity: { x: number; y: number };
+  knockback: { x: number; y: number };
+  isDashing: boolean;
+  dashCooldown: number;
+  hasBomb: boolean;
+  eliminated: boolean;
+  lastInputSeq: number;
+}
+
+interface GameSnapshotBase {
+  gameSessionId: string;
+  tick: number;
+  elapsed: number;
+  players: PlayerSnapshot[];
+}
+
+// União discriminada por `gameType`
+export type GameSnapshot = {
+  [K in GameType]: GameSnapshotBase & { gameType: K; state: GameStates[K] };
+}[GameType];
+
+export type GameSnapshotOf<K extends GameType> = Extract<GameSnapshot, { gameType: K }>;
+
+// Só os campos que mudaram desde o snapshot do tick `baseTick`
+export type GameDelta = {
+  [K in GameType]: {
+    gameSessionId: string;
+    gameType: K;
+    tick: number;
+    baseTick: number;
+    elapsed: number;
+    players: Array<Partial<PlayerSnapshot> & { id: string }>;
+    state: Partial<GameStates[K]>;
+  };
+}[GameType];
+
+export type GameEventMessage = {
+  [K in GameType]: { gameSessionId: string; gameType: K; tick: number } & GameEvents[K];
+}[GameType];
+
+export type GameEventOf<K extends GameType> = Extract<GameEventMessage, { gameType: K }>;
+
+// Composição dos pontos: base × multiplier (jogo final) + bônus de façanhas
+export interface ScoreBreakdown {
+  base: number;
+  multiplier: number;
+  bonuses: Array<{ feat: string; points: number }>;
+}
+
+export interface GameResultMessage {
+  player_id: string;
+  player_name: string;
+  // Empatados repetem a posição (1, 2, 2, 4) e dividem os pontos
+  rank: number;
+  points: number;
+  // Ausente em resultados enviados pelo host sem simulação
+  breakdown?: ScoreBreakdown;
+}
+
+export interface GameCompletedMessage {
+  gameSessionId: string;
+  results: GameResultMessage[];
+}
+
+// Replay (GET /api/game-sessions/:id/replay): o fluxo do socket gravado pelo servidor
+
+export type ReplayEventName = 'eliminated' | 'dropped' | 'disconnected' | 'reconnected';
+
+export type ReplayInput = Omit<PlayerInputMessage, 'seq'>;
+
+export type ReplayEntry =
+  | { tick: number; type: 'snapshot'; snapshot: GameSnapshot }
+  | { tick: number; type: 'delta'; delta: GameDelta }
+  | { tick: number; type: 'input'; playerId: string; input: ReplayInput }
+  | { tick: number; type: 'event'; event: ReplayEventName; playerId: string }
+  | { tick: number; type: 'game-event'; event: GameEventMessage };
+
+export interface ReplayLog {
+  version: number;
+  gameType: GameType;
+  tickMs: number;
+  // O log chegou ao teto de entradas e termina antes da partida
+  truncated?: boolean;
+  entries: ReplayEntry[];
+}
+
+export interface PlayerLeftMessage {
+  roomId: string;
+  playerId: string;
+}
+
+export interface HostChangedMessage {
+  roomId: string;
+  hostPlayerId: string;
+  previousHostPlayerId: string | null;
+}
+
+export interface PlayerConnectionMessage {
+  playerId: string;
+  gameSessionId: string;
+}
+
+export interface ProtocolErrorMessage {
+  event: string;
+  error: string;
+}
+
+// Os eventos da sala levam linhas do banco; o protocolo só garante os campos
+// usados para roteá-los, e cada lado tipa a linha completa
+export type ServerEventName =
+  | 'player-joined'
+  | 'player-left'
+  | 'player-updated'
+  | 'room-status-changed'
+  | 'game-session-started'
+  | 'host-changed'
+  | 'game-snapshot'
+  | 'game-delta'
+  | 'game-event'
+  | 'game-completed'
+  | 'player-disconnected'
+  | 'player-reconnected'
+  | 'protocol-error';
+
+/** Devolve null se a mensagem é válida, ou a descrição do primeiro erro. */
+export declare function validateClientEvent(event: string, payload: unknown): string | null;
+
+/** Devolve null se a mensagem é válida, ou a descrição do primeiro erro. */
+export declare function validateServerEvent(event: string, payload: unknown): string | null;
+
+export declare function diffGameSnapshot(previous: GameSnapshot, next: GameSnapshot): GameDelta;
+
+/** Aplica o delta sobre o snapshot do tick `delta.baseTick`; null se a base não confere. */
+export declare function applyGameDelta<S extends GameSnapshot>(base: S, delta: GameDelta): S | null;
@@ -0,0 +1,319 @@
+// Protocolo Socket.IO entre servidor e clientes. Os tipos ficam em index.d.ts;
+// aqui ficam a versão e os validadores usados em tempo de execução dos dois
+// lados. Toda mudança incompatível nas mensagens deve subir PROTOCOL_VERSION.
+
+export const PROTOCOL_VERSION = 6;
+
+export const GAME_TYPES = ['tag_bomb', 'platform_push', 'boulder_run', 'falling_tiles'];
+
+// Cada validador devolve null se o valor é válido, ou a descrição do erro
+const is = (check, expected) => (value, path) => (check(value) ? null : `${path}: expected ${expected}`);
+
+const anything = () => null;
+const string = is((value) => typeof value === 'string' && value.length > 0, 'non-empty string');
+const number = is((value) => typeof value === 'number' && Number.isFinite(value), 'number');
+const boolean = is((value) => typeof value === 'boolean', 'boolean');
+const sequence = is((value) => Number.isInteger(value) && value > 0, 'positive integer');
+const axis = is((value) => typeof value === 'number' && value >= -1 && value <= 1, 'number between -1 and 1');
+const oneOf = (...values) => is((value) => values.includes(value), values.join(' | '));
+const nullable = (schema) => (value, path) => (value === null ? null : schema(value, path));
+const optional = (schema) => (value, path) => (value === undefined ? null : schema(value, path));
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const array = (schema) => (value, path) => {
+  if (!Array.isArray(value)) return `${path}: expected array`;
+  for (let i = 0; i < value.length; i++) {
+    const error = schema(value[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const record = (schema) => (value, path) => {
+  if (!isPlainObject(value)) return `${path}: expected object`;
+  for (const [key, item] of Object.entries(value)) {
+    const error = schema(item, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Campos extras são aceitos: linhas do banco trazem mais colunas do que o protocolo exige
+const object = (shape) => (value, path) => {
+  if (!isPlainObject(value)) return `${path}: expected object`;
+  for (const [key, schema] of Object.entries(shape)) {
+    const error = schema(value[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Como object(), mas só valida os campos presentes (deltas)
+const partial = (shape) => (value, path) => {
+  if (!isPlainObject(value)) return `${path}: expected object`;
+  for (const [key, item] of Object.entries(value)) {
+    const schema = shape[key];
+    if (!schema) return `${path}.${key}: unexpected field`;
+    const error = schema(item, `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const vector = object({ x: number, y: number });
+
+const platformArena = object({
+  shape: oneOf('rectangle', 'circle', 'cross'),
+  x: number,
+  y: number,
+  width: number,
+  height: number
+});
+
+const GAME_STATE_SHAPES = {
+  tag_bomb: {
+    round: number,
+    bombs: array(object({ id: number, holderId: string, timer: nullable(number) })),
+    roundBreak: number,
+    suddenDeathIn: number,
+    arena: nullable(object({ x: number, y: number, width: number, height: number }))
+  },
+  platform_push: {
+    platform: platformArena,
+    crumbling: nullable(platformArena),
+    crumbleIn: number,
+    obstacles: array(object({ id: number, x: number, y: number, radius: number })),
+    pushing: array(string),
+    charging: record(number),
+    bracing: array(string),
+    pushCooldowns: record(number)
+  },
+  boulder_run: {
+    boulders: array(object({
+      id: number,
+      kind: oneOf('normal', 'bouncer', 'splitter'),
+      x: number,
+      y: number,
+      radius: number
+    })),
+    terrain: array(object({ id: number, x: number, y: number, width: number, height: number })),
+    pickups: array(object({ id: number, kind: oneOf('shield'), x: number, y: number, radius: number })),
+    shields: record(number),
+    wave: number,
+    pattern: oneOf('rain', 'zigzag', 'wall', 'splitter'),
+    difficulty: number,
+    scroll: number
+  },
+  falling_tiles: {
+    tiles: array(object({ id: string, status: oneOf('warning', 'fallen', 'removed') }))
+  }
+};
+
+// Eventos de cada jogo, pelo campo `type`
+const GAME_EVENT_SHAPES = {
+  tag_bomb: {
+    explosion: {
+      bombId: number,
+      holderId: string,
+      x: number,
+      y: number,
+      radius: number,
+      stunRadius: number,
+      eliminated: array(string),
+      stunned: array(string),
+      stunMs: number,
+      chainedFrom: nullable(number)
+    }
+  },
+  platform_push: {},
+  boulder_run: {},
+  falling_tiles: {}
+};
+
+const PLAYER_SNAPSHOT_SHAPE = {
+  id: string,
+  x: number,
+  y: number,
+  velocity: vector,
+  knockback: vector,
+  isDashing: boolean,
+  dashCooldown: number,
+  hasBomb: boolean,
+  eliminated: boolean,
+  lastInputSeq: number
+};
+
+const playerSnapshot = object(PLAYER_SNAPSHOT_SHAPE);
+
+const snapshotBase = object({
+  gameSessionId: string,
+  gameType: oneOf(...GAME_TYPES),
+  tick: number,
+  elapsed: number,
+  players: array(playerSnapshot)
+});
+
+const gameSnapshot = (value, path) => (
+  snapshotBase(value, path) ?? object(GAME_STATE_SHAPES[value.gameType])(value.state, `${path}.state`)
+);
+
+const deltaBase = object({
+  gameSessionId: string,
+  gameType: oneOf(...GAME_TYPES),
+  tick: number,
+  baseTick: number,
+  elapsed: number,
+  players: array(object({ id: string }))
+});
+
+const gameDelta = (value, path) => (
+  deltaBase(value, path) ??
+  array(partial(PLAYER_SNAPSHOT_SHAPE))(value.players, `${path}.players`) ??
+  partial(GAME_STATE_SHAPES[value.gameType])(value.state, `${path}.state`)
+);
+
+const gameEventBase = object({
+  gameSessionId: string,
+  gameType: oneOf(...GAME_TYPES),
+  tick: number,
+  type: string
+});
+
+const gameEvent = (value, path) => {
+  const error = gameEventBase(value, path);
+  if (error) return error;
+  const shape = GAME_EVENT_SHAPES[value.gameType][value.type];
+  if (!shape) return `${path}.type: unknown ${value.gameType} event "${value.type}"`;
+  return object(shape)(value, path);
+};
+
+const scoreBreakdown = object({
+  base: number,
+  multiplier: number,
+  bonuses: array(object({ feat: string, points: number }))
+});
+
+const gameResult = object({
+  player_id: string,
+  player_name: string,
+  rank: number,
+  points: number,
+  breakdown: optional(scoreBreakdown)
+});
+
+const playerRow = object({ id: string, room_id: string, player_name: string, total_score: number });
+const roomRow = object({ id: string, room_code: string, status: oneOf('waiting', 'playing', 'finished') });
+const gameSessionRow = object({
+  id: string,
+  room_id: string,
+  game_type: string,
+  status: oneOf('pending', 'active', 'completed')
+});
+const playerConnection = object({ playerId: string, gameSessionId: string });
+
+// Cliente → servidor
+const CLIENT_EVENT_SCHEMAS = {
+  'join-room': object({ roomId: string, playerId: optional(nullable(string)) }),
+  'leave-room': anything,
+  'join-game': object({ gameSessionId: string, playerId: optional(nullable(string)) }),
+  'leave-game': anything,
+  'player-input': object({ seq: sequence, dx: axis, dy: axis, action: boolean, holding: boolean, bracing: boolean })
+};
+
+// Servidor → cliente
+const SERVER_EVENT_SCHEMAS = {
+  'player-joined': playerRow,
+  'player-left': object({ roomId: string, playerId: string }),
+  'player-updated': playerRow,
+  'room-status-changed': roomRow,
+  'game-session-started': gameSessionRow,
+  'host-changed': object({ roomId: string, hostPlayerId: string, previousHostPlayerId: nullable(string) }),
+  'game-snapshot': gameSnapshot,
+  'game-delta': gameDelta,
+  'game-event': gameEvent,
+  'game-completed': object({ gameSessionId: string, results: array(gameResult) }),
+  'player-disconnected': playerConnection,
+  'player-reconnected': playerConnection,
+  'protocol-error': object({ event: string, error: string })
+};
+
+function validate(schemas, event, payload) {
+  const schema = schemas[event];
+  if (!schema) return `unknown event "${event}"`;
+  return schema(payload, event);
+}
+
+export function validateClientEvent(event, payload) {
+  return validate(CLIENT_EVENT_SCHEMAS, event, payload);
+}
+
+export function validateServerEvent(event, payload) {
+  return validate(SERVER_EVENT_SCHEMAS, event, payload);
+}
+
+// Deltas: entre snapshots completos, o servidor manda só os campos que mudaram
+// desde o tick anterior. Objetos e listas são comparados pelo conteúdo e, se
+// mudaram, vão inteiros.
+const sameValue = (a, b) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export function diffGameSnapshot(previous, next) {
+  const previousPlayers = new Map(previous.players.map((player) => [player.id, player]));
+
+  const players = [];
+  next.players.forEach((player) => {
+    const before = previousPlayers.get(player.id);
+    const changes = {};
+    for (const [key, value] of Object.entries(player)) {
+      if (!before || !sameValue(before[key], value)) {
+        changes[key] = value;
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      players.push({ ...changes, id: player.id });
+    }
+  });
+
+  const state = {};
+  for (const [key, value] of Object.entries(next.state)) {
+    if (!sameValue(previous.state[key], value)) {
+      state[key] = value;
+    }
+  }
+
+  return {
+    gameSessionId: next.gameSessionId,
+    gameType: next.gameType,
+    tick: next.tick,
+    baseTick: previous.tick,
+    elapsed: next.elapsed,
+    players,
+    state
+  };
+}
+
+// Devolve null se o delta não foi gerado a partir de `base`; nesse caso é
+// preciso esperar o próximo snapshot completo
+export function applyGameDelta(base, delta) {
+  if (base.gameSessionId !== delta.gameSessionId || base.tick !== delta.baseTick) {
+    return null;
+  }
+
+  const changes = new Map(delta.players.map((player) => [player.id, player]));
+  const players = base.players.map((player) => (
+    changes.has(player.id) ? { ...player, ...changes.get(player.id) } : player
+  ));
+  delta.players.forEach((player) => {
+    if (!base.players.some((p) => p.id === player.id)) {
+      players.push(player);
+    }
+  });
+
+  return {
+    ...base,
+    tick: delta.tick,
+    elapsed: delta.elapsed,
+    players,
+    state: { ...base.state, ...delta.state }
+  };
+}
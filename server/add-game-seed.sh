@@ -0,0 +1,18 @@
+#!/bin/bash
+cd "$(dirname "$0")"
+
+if ! docker compose ps | grep -q "demolish-db.*Up"; then
+    echo "Container do banco de dados não está rodando. Iniciando containers..."
+    docker compose up -d backend-db
+    sleep 5
+fi
+
+echo "Adicionando coluna seed à tabela game_sessions..."
+cat database/add-game-seed.sql | docker compose exec -T backend-db psql -U root -d demolish
+
+if [ $? -eq 0 ]; then
+    echo "Coluna seed adicionada com sucesso."
+else
+    echo "Erro ao adicionar coluna seed."
+    exit 1
+fi
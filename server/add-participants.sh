@@ -0,0 +1,18 @@
+#!/bin/bash
+cd "$(dirname "$0")"
+
+if ! docker compose ps | grep -q "demolish-db.*Up"; then
+    echo "Container do banco de dados não está rodando. Iniciando containers..."
+    docker compose up -d backend-db
+    sleep 5
+fi
+
+echo "Adicionando coluna participant_ids à tabela game_sessions..."
+cat database/add-participants.sql | docker compose exec -T backend-db psql -U root -d demolish
+
+if [ $? -eq 0 ]; then
+    echo "Coluna participant_ids adicionada com sucesso."
+else
+    echo "Erro ao adicionar coluna participant_ids."
+    exit 1
+fi
@@ -0,0 +1,18 @@
+#!/bin/bash
+cd "$(dirname "$0")"
+
+if ! docker compose ps | grep -q "demolish-db.*Up"; then
+    echo "Container do banco de dados não está rodando. Iniciando containers..."
+    docker compose up -d backend-db
+    sleep 5
+fi
+
+echo "Criando tabelas realtime_instances e realtime_presence..."
+cat database/add-realtime.sql | docker compose exec -T backend-db psql -U root -d demolish
+
+if [ $? -eq 0 ]; then
+    echo "Tabelas de tempo real criadas com sucesso."
+else
+    echo "Erro ao criar tabelas de tempo real."
+    exit 1
+fi
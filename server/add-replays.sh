@@ -0,0 +1,18 @@
+#!/bin/bash
+cd "$(dirname "$0")"
+
+if ! docker compose ps | grep -q "demolish-db.*Up"; then
+    echo "Container do banco de dados não está rodando. Iniciando containers..."
+    docker compose up -d backend-db
+    sleep 5
+fi
+
+echo "Criando tabela game_replays..."
+cat database/add-replays.sql | docker compose exec -T backend-db psql -U root -d demolish
+
+if [ $? -eq 0 ]; then
+    echo "Tabela game_replays criada com sucesso."
+else
+    echo "Erro ao criar tabela game_replays."
+    exit 1
+fi
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+
+// Tokens de sessão por jogador: payload em base64url + assinatura HMAC-SHA256.
+// Sem PLAYER_TOKEN_SECRET, um segredo aleatório é gerado e os tokens
+// deixam de valer quando o servidor reinicia; com REALTIME_ADAPTER=postgres
+// o segredo é obrigatório, já que todas as instâncias validam os mesmos
+// tokens. O index.js carrega o segredo na subida, depois de dotenv.config().
+let tokenSecret = null;
+
+export function loadTokenSecret() {
+  if (!tokenSecret) {
+    tokenSecret = process.env.PLAYER_TOKEN_SECRET;
+    if (!tokenSecret) {
+      if (process.env.REALTIME_ADAPTER === 'postgres') {
+        throw new Error('PLAYER_TOKEN_SECRET is required when REALTIME_ADAPTER=postgres');
+      }
+      console.warn('PLAYER_TOKEN_SECRET not set; using a random secret for this process');
+      tokenSecret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+  return tokenSecret;
+}
+
+function sign(data) {
+  return crypto.createHmac('sha256', loadTokenSecret()).update(data).digest('base64url');
+}
+
+export function signPlayerToken({ playerId, roomId }) {
+  const payload = Buffer.from(JSON.stringify({ playerId, roomId })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyPlayerToken(token) {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const { playerId, roomId } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!playerId || !roomId) return null;
+    return { playerId, roomId };
+  } catch {
+    return null;
+  }
+}
+
+// Middleware Express: exige `Authorization: Bearer <token>` e preenche req.player
+export function requirePlayer(req, res, next) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const player = verifyPlayerToken(token);
+
+  if (!player) {
+    return res.status(401).json({ error: 'Invalid or missing player token' });
+  }
+
+  req.player = player;
+  next();
+}
@@ -0,0 +1,5 @@
+-- Adicionar coluna seed à tabela game_sessions
+-- Sessões existentes recebem uma semente aleatória
+
+ALTER TABLE game_sessions
+ADD COLUMN IF NOT EXISTS seed integer NOT NULL DEFAULT floor(random() * 2147483647)::integer;
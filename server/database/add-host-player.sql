@@ -0,0 +1,11 @@
+-- Adicionar coluna host_player_id à tabela rooms
+-- Salas existentes recebem como host o primeiro jogador que entrou
+
+ALTER TABLE rooms
+ADD COLUMN IF NOT EXISTS host_player_id uuid REFERENCES players(id) ON DELETE SET NULL;
+
+UPDATE rooms r
+SET host_player_id = (
+  SELECT p.id FROM players p WHERE p.room_id = r.id ORDER BY p.joined_at ASC LIMIT 1
+)
+WHERE r.host_player_id IS NULL;
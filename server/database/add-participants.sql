@@ -0,0 +1,5 @@
+-- Adicionar coluna participant_ids à tabela game_sessions
+-- Jogadores que disputam a partida, gravados quando ela fica ativa; sessões antigas ficam com [] (todos os jogadores da sala)
+
+ALTER TABLE game_sessions
+ADD COLUMN IF NOT EXISTS participant_ids jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,17 @@
+-- Tabelas do adaptador de tempo real em Postgres (REALTIME_ADAPTER=postgres)
+
+CREATE TABLE IF NOT EXISTS realtime_instances (
+  id text PRIMARY KEY,
+  last_seen timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS realtime_presence (
+  socket_id text PRIMARY KEY,
+  instance_id text NOT NULL REFERENCES realtime_instances(id) ON DELETE CASCADE,
+  player_id uuid NOT NULL,
+  room_id uuid,
+  game_session_id uuid,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_realtime_presence_player ON realtime_presence(player_id);
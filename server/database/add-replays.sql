@@ -0,0 +1,8 @@
+-- Criar tabela game_replays
+-- Log de replay de cada partida simulada no servidor (snapshots, deltas, inputs e eventos), gravado na conclusão
+
+CREATE TABLE IF NOT EXISTS game_replays (
+  game_session_id uuid PRIMARY KEY REFERENCES game_sessions(id) ON DELETE CASCADE,
+  log jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
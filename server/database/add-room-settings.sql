@@ -0,0 +1,5 @@
+-- Adicionar coluna settings à tabela rooms
+-- Playlist (jogos habilitados, ordem, repetição) e parâmetros de cada jogo; {} usa os padrões
+
+ALTER TABLE rooms
+ADD COLUMN IF NOT EXISTS settings jsonb NOT NULL DEFAULT '{}'::jsonb;
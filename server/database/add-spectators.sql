@@ -0,0 +1,5 @@
+-- Adicionar coluna is_spectator à tabela players
+-- Espectadores entram em salas já em andamento e viram jogadores quando a próxima sessão de jogo é ativada
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS is_spectator boolean NOT NULL DEFAULT false;
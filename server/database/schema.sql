@@ -15,6 +15,8 @@
   - `min_players` (integer) - Minimum players required (2-10)
   - `max_games` (integer) - Number of minigames to play
   - `status` (text) - Room status: waiting, playing, finished
+  - `host_player_id` (uuid, foreign key) - Current host; moves to another player if the host leaves
+  - `settings` (jsonb) - Playlist (enabled games, ordered or shuffled, repeats) and per-game parameters
   - `created_at` (timestamptz) - Room creation timestamp
   - `updated_at` (timestamptz) - Last update timestamp
 
@@ -25,6 +27,7 @@
   - `player_name` (text) - Player's chosen name
   - `ghost_color` (text) - Ghost character color
   - `total_score` (integer) - Cumulative score across all games
+  - `is_spectator` (boolean) - Joined while the room was playing; watches until the next lobby
   - `joined_at` (timestamptz) - When player joined
   
   ### `game_sessions`
@@ -35,9 +38,23 @@
   - `game_number` (integer) - Sequential game number in the party
   - `status` (text) - Game status: pending, active, completed
   - `results` (jsonb) - Game results with player rankings
+  - `seed` (integer) - PRNG seed; every random event in the match derives from it
+  - `participant_ids` (jsonb) - Players in this game, frozen when it starts; later joiners wait for the next one
   - `started_at` (timestamptz) - Game start time
   - `completed_at` (timestamptz) - Game completion time
 
+  ### `game_replays`
+  Replay log of each server-simulated game, written when it completes
+  - `game_session_id` (uuid, primary key, foreign key) - Reference to game session
+  - `log` (jsonb) - Broadcast snapshots and deltas, received inputs and player events, by tick
+  - `created_at` (timestamptz) - When the log was saved
+
+  ### `realtime_instances` / `realtime_presence`
+  Only used with REALTIME_ADAPTER=postgres (several server instances)
+  - `realtime_instances` - Running server instances and their last heartbeat
+  - `realtime_presence` - One row per connected socket: player, room and game channels, and
+    the instance holding it; rows go away with their instance
+
   ## Notes
   - All data is temporary and can be cleaned up after room completion
   - No authentication required - casual party game experience
@@ -53,6 +70,7 @@ CREATE TABLE IF NOT EXISTS rooms (
   min_players integer NOT NULL DEFAULT 2,
   max_games integer NOT NULL DEFAULT 5,
   status text NOT NULL DEFAULT 'waiting',
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now(),
   CONSTRAINT valid_min_players CHECK (min_players >= 2 AND min_players <= 10),
@@ -66,9 +84,14 @@ CREATE TABLE IF NOT EXISTS players (
   player_name text NOT NULL,
   ghost_color text NOT NULL,
   total_score integer NOT NULL DEFAULT 0,
+  is_spectator boolean NOT NULL DEFAULT false,
   joined_at timestamptz DEFAULT now()
 );
 
+-- rooms é criada antes de players, então a referência ao host vem depois
+ALTER TABLE rooms
+ADD COLUMN IF NOT EXISTS host_player_id uuid REFERENCES players(id) ON DELETE SET NULL;
+
 CREATE TABLE IF NOT EXISTS game_sessions (
   id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
@@ -77,11 +100,35 @@ CREATE TABLE IF NOT EXISTS game_sessions (
   status text NOT NULL DEFAULT 'pending',
   results jsonb DEFAULT '[]'::jsonb,
   game_state jsonb DEFAULT '{}'::jsonb,
+  seed integer NOT NULL DEFAULT floor(random() * 2147483647)::integer,
+  participant_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
   started_at timestamptz,
   completed_at timestamptz,
   CONSTRAINT valid_game_status CHECK (status IN ('pending', 'active', 'completed'))
 );
 
+CREATE TABLE IF NOT EXISTS game_replays (
+  game_session_id uuid PRIMARY KEY REFERENCES game_sessions(id) ON DELETE CASCADE,
+  log jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS realtime_instances (
+  id text PRIMARY KEY,
+  last_seen timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS realtime_presence (
+  socket_id text PRIMARY KEY,
+  instance_id text NOT NULL REFERENCES realtime_instances(id) ON DELETE CASCADE,
+  player_id uuid NOT NULL,
+  room_id uuid,
+  game_session_id uuid,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_realtime_presence_player ON realtime_presence(player_id);
+
 CREATE INDEX IF NOT EXISTS idx_rooms_code ON rooms(room_code);
 CREATE INDEX IF NOT EXISTS idx_players_room ON players(room_id);
 CREATE INDEX IF NOT EXISTS idx_game_sessions_room ON game_sessions(room_id);
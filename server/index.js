@@ -4,8 +4,14 @@ import pg from 'pg';
 import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createSimulation, TICK_MS } from './simulation/index.js';
+import { SCORING_SYSTEMS } from './simulation/scoring.js';
+import { loadTokenSecret, signPlayerToken, verifyPlayerToken, requirePlayer } from './auth.js';
+import { createRealtime } from './realtime/index.js';
+import { PROTOCOL_VERSION, validateClientEvent, diffGameSnapshot } from '@demolish-dash/protocol';
 
 dotenv.config();
+loadTokenSecret();
 
 const app = express();
 const httpServer = createServer(app);
@@ -26,30 +32,104 @@ const pool = new Pool({
   password: process.env.DB_PASSWORD || 'postgres',
 });
 
+// Broadcasts e presença passam pelo adaptador, para funcionar com várias instâncias
+const realtime = createRealtime({ io, pool });
+
 app.use(cors());
 app.use(express.json());
 
+async function getRoomHostId(client, roomId) {
+  const result = await client.query(
+    `SELECT host_player_id FROM rooms WHERE id = $1`,
+    [roomId]
+  );
+  return result.rows[0]?.host_player_id || null;
+}
+
+async function isRoomHost(client, player, roomId) {
+  return player.roomId === roomId && await getRoomHostId(client, roomId) === player.playerId;
+}
+
+const PLAYLIST_MODES = ['shuffle', 'ordered'];
+
+function isValidScoring(scoring) {
+  if (!scoring || typeof scoring !== 'object') return false;
+
+  const { system, doubleFinal, featBonuses } = scoring;
+  return (system === undefined || SCORING_SYSTEMS.includes(system)) &&
+    (doubleFinal === undefined || typeof doubleFinal === 'boolean') &&
+    (featBonuses === undefined || typeof featBonuses === 'boolean');
+}
+
+// rooms.settings: playlist, pontuação e parâmetros por jogo; os valores são limitados por cada simulação
+function isValidRoomSettings(settings) {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return false;
+
+  const { enabledGames, playlistMode, allowRepeats, scoring, games } = settings;
+  if (enabledGames !== undefined && !(Array.isArray(enabledGames) && enabledGames.every((id) => typeof id === 'string'))) return false;
+  if (playlistMode !== undefined && !PLAYLIST_MODES.includes(playlistMode)) return false;
+  if (allowRepeats !== undefined && typeof allowRepeats !== 'boolean') return false;
+  if (scoring !== undefined && !isValidScoring(scoring)) return false;
+  if (games === undefined) return true;
+
+  return !!games && typeof games === 'object' && Object.values(games).every((values) =>
+    values && typeof values === 'object' && Object.values(values).every((value) => typeof value === 'number')
+  );
+}
+
 // Rooms endpoints
 app.post('/api/rooms', async (req, res) => {
   const client = await pool.connect();
   try {
-    const { host_name, min_players, max_games, room_code } = req.body;
+    const { host_name, min_players, max_games, room_code, ghost_color, settings = {} } = req.body;
 
     if (!room_code || room_code.trim().length === 0) {
       return res.status(400).json({ error: 'Room code is required' });
     }
 
+    if (!host_name || !ghost_color) {
+      return res.status(400).json({ error: 'Host name and ghost color are required' });
+    }
+
+    if (!isValidRoomSettings(settings)) {
+      return res.status(400).json({ error: 'Invalid room settings' });
+    }
+
     const normalizedCode = room_code.trim().toUpperCase();
 
-    const result = await client.query(
-      `INSERT INTO rooms (room_code, host_name, min_players, max_games, status)
-       VALUES ($1, $2, $3, $4, 'waiting')
+    // Sala e jogador host são criados juntos, para o host já receber o seu token
+    await client.query('BEGIN');
+
+    const roomResult = await client.query(
+      `INSERT INTO rooms (room_code, host_name, min_players, max_games, status, settings)
+       VALUES ($1, $2, $3, $4, 'waiting', $5::jsonb)
+       RETURNING id`,
+      [normalizedCode, host_name, min_players, max_games, JSON.stringify(settings)]
+    );
+    const room = roomResult.rows[0];
+
+    const playerResult = await client.query(
+      `INSERT INTO players (room_id, player_name, ghost_color, total_score)
+       VALUES ($1, $2, $3, 0)
        RETURNING *`,
-      [normalizedCode, host_name, min_players, max_games]
+      [room.id, host_name, ghost_color]
     );
+    const player = playerResult.rows[0];
 
-    res.json(result.rows[0]);
+    const hostResult = await client.query(
+      `UPDATE rooms SET host_player_id = $1 WHERE id = $2 RETURNING *`,
+      [player.id, room.id]
+    );
+
+    await client.query('COMMIT');
+
+    res.json({
+      room: hostResult.rows[0],
+      player,
+      token: signPlayerToken({ playerId: player.id, roomId: room.id })
+    });
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
     console.error('Error creating room:', error);
     if (error.code === '23505') {
       return res.status(409).json({ error: 'Room code already exists' });
@@ -110,12 +190,16 @@ app.get('/api/rooms', async (req, res) => {
   }
 });
 
-app.patch('/api/rooms/:roomId', async (req, res) => {
+app.patch('/api/rooms/:roomId', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { roomId } = req.params;
     const { status } = req.body;
 
+    if (!await isRoomHost(client, req.player, roomId)) {
+      return res.status(403).json({ error: 'Only the host can change the room status' });
+    }
+
     const result = await client.query(
       `UPDATE rooms SET status = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
       [status, roomId]
@@ -125,6 +209,7 @@ app.patch('/api/rooms/:roomId', async (req, res) => {
       return res.status(404).json({ error: 'Room not found' });
     }
 
+    realtime.broadcast(`room-${roomId}`, 'room-status-changed', result.rows[0]);
     res.json(result.rows[0]);
   } catch (error) {
     console.error('Error updating room:', error);
@@ -140,14 +225,35 @@ app.post('/api/players', async (req, res) => {
   try {
     const { room_id, player_name, ghost_color } = req.body;
 
+    const roomResult = await client.query(
+      `SELECT status FROM rooms WHERE id = $1`,
+      [room_id]
+    );
+
+    if (roomResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    // Com a sala em andamento, quem entra (por "Entrar" ou "Assistir") é espectador
+    // e vira jogador quando o próximo jogo é ativado
+    const { status } = roomResult.rows[0];
+    if (status === 'finished') {
+      return res.status(409).json({ error: 'Room is not accepting players' });
+    }
+
     const result = await client.query(
-      `INSERT INTO players (room_id, player_name, ghost_color, total_score)
-       VALUES ($1, $2, $3, 0)
+      `INSERT INTO players (room_id, player_name, ghost_color, total_score, is_spectator)
+       VALUES ($1, $2, $3, 0, $4)
        RETURNING *`,
-      [room_id, player_name, ghost_color]
+      [room_id, player_name, ghost_color, status === 'playing']
     );
 
-    res.json(result.rows[0]);
+    const player = result.rows[0];
+    realtime.broadcast(`room-${room_id}`, 'player-joined', player);
+    res.json({
+      player,
+      token: signPlayerToken({ playerId: player.id, roomId: player.room_id })
+    });
   } catch (error) {
     console.error('Error creating player:', error);
     res.status(500).json({ error: error.message });
@@ -198,24 +304,57 @@ app.get('/api/players/:playerId', async (req, res) => {
   }
 });
 
-app.patch('/api/players/:playerId', async (req, res) => {
+// Retomar a sessão de um jogador (ex: após recarregar a página)
+app.get('/api/players/:playerId/session', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { playerId } = req.params;
-    const { total_score } = req.body;
 
-    const result = await client.query(
-      `UPDATE players SET total_score = $1 WHERE id = $2 RETURNING *`,
-      [total_score, playerId]
+    if (req.player.playerId !== playerId) {
+      return res.status(403).json({ error: 'Players can only resume their own session' });
+    }
+
+    const playerResult = await client.query(
+      `SELECT * FROM players WHERE id = $1`,
+      [playerId]
     );
 
-    if (result.rows.length === 0) {
+    if (playerResult.rows.length === 0) {
       return res.status(404).json({ error: 'Player not found' });
     }
 
-    res.json(result.rows[0]);
+    const player = playerResult.rows[0];
+    const roomResult = await client.query(
+      `SELECT * FROM rooms WHERE id = $1`,
+      [player.room_id]
+    );
+    const room = roomResult.rows[0];
+
+    // Jogo ativo ou, entre jogos, o último concluído (para o placar)
+    const sessionResult = await client.query(
+      `SELECT * FROM game_sessions
+       WHERE room_id = $1 AND status IN ('active', 'completed')
+       ORDER BY (status = 'active') DESC, game_number DESC
+       LIMIT 1`,
+      [room.id]
+    );
+    const gameSession = sessionResult.rows[0] || null;
+
+    let appState = 'lobby';
+    if (room.status === 'finished') {
+      appState = 'final';
+    } else if (room.status === 'playing' && gameSession) {
+      appState = gameSession.status === 'active' ? 'playing' : 'scoreboard';
+    }
+
+    res.json({
+      player,
+      room,
+      app_state: appState,
+      game_session: gameSession
+    });
   } catch (error) {
-    console.error('Error updating player:', error);
+    console.error('Error fetching player session:', error);
     res.status(500).json({ error: error.message });
   } finally {
     client.release();
@@ -223,11 +362,15 @@ app.patch('/api/players/:playerId', async (req, res) => {
 });
 
 // Game sessions endpoints
-app.post('/api/game-sessions', async (req, res) => {
+app.post('/api/game-sessions', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { room_id, game_type, game_number } = req.body;
 
+    if (!await isRoomHost(client, req.player, room_id)) {
+      return res.status(403).json({ error: 'Only the host can create game sessions' });
+    }
+
     const result = await client.query(
       `INSERT INTO game_sessions (room_id, game_type, game_number, status, results)
        VALUES ($1, $2, $3, 'pending', '[]'::jsonb)
@@ -244,11 +387,20 @@ app.post('/api/game-sessions', async (req, res) => {
   }
 });
 
-app.post('/api/game-sessions/batch', async (req, res) => {
+app.post('/api/game-sessions/batch', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { sessions } = req.body;
 
+    if (!Array.isArray(sessions) || sessions.length === 0) {
+      return res.status(400).json({ error: 'Sessions are required' });
+    }
+
+    const roomId = sessions[0].room_id;
+    if (sessions.some((s) => s.room_id !== roomId) || !await isRoomHost(client, req.player, roomId)) {
+      return res.status(403).json({ error: 'Only the host can create game sessions' });
+    }
+
     const values = sessions.map((s, i) => {
       const base = i * 3;
       return `($${base + 1}, $${base + 2}, $${base + 3}, 'pending', '[]'::jsonb)`;
@@ -321,52 +473,106 @@ app.get('/api/rooms/:roomId/game-sessions', async (req, res) => {
   }
 });
 
-app.patch('/api/game-sessions/:sessionId', async (req, res) => {
+app.patch('/api/game-sessions/:sessionId', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { sessionId } = req.params;
     const { status, results, started_at, completed_at, game_state } = req.body;
 
+    // Resultados e conclusão vêm só da simulação do servidor, que soma a pontuação uma única vez
+    if (results !== undefined || completed_at !== undefined) {
+      return res.status(400).json({ error: 'Results are set by the server simulation' });
+    }
+
+    // O checkpoint da simulação é o que o servidor usa para retomar a partida
+    if (game_state?.simulation !== undefined) {
+      return res.status(400).json({ error: 'The simulation checkpoint is set by the server' });
+    }
+
+    if (status !== undefined && status !== 'active') {
+      return res.status(400).json({ error: 'Game sessions can only be activated here' });
+    }
+
+    const sessionResult = await client.query(
+      `SELECT room_id, status FROM game_sessions WHERE id = $1`,
+      [sessionId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Game session not found' });
+    }
+
+    if (!await isRoomHost(client, req.player, sessionResult.rows[0].room_id)) {
+      return res.status(403).json({ error: 'Only the host can update game sessions' });
+    }
+
     const updates = [];
     const params = [];
     let paramIndex = 1;
 
-    if (status !== undefined) {
-      updates.push(`status = $${paramIndex++}`);
-      params.push(status);
-    }
-    if (results !== undefined) {
-      updates.push(`results = $${paramIndex++}::jsonb`);
-      params.push(JSON.stringify(results));
+    await client.query('BEGIN');
+
+    // Os participantes são os jogadores (não espectadores) da sala no início do jogo.
+    // Quem entrou com a sala em andamento joga a partir deste jogo: os espectadores
+    // viram jogadores antes de participant_ids ser fixado
+    let promoted = [];
+    if (status === 'active') {
+      const promotedResult = await client.query(
+        `UPDATE players SET is_spectator = false
+         WHERE room_id = $1 AND is_spectator
+         RETURNING *`,
+        [sessionResult.rows[0].room_id]
+      );
+      promoted = promotedResult.rows;
+
+      updates.push(`status = 'active'`);
+      updates.push(`participant_ids = (
+        SELECT COALESCE(jsonb_agg(id ORDER BY joined_at), '[]'::jsonb)
+        FROM players WHERE room_id = $${paramIndex++} AND NOT is_spectator
+      )`);
+      params.push(sessionResult.rows[0].room_id);
     }
     if (started_at !== undefined) {
       updates.push(`started_at = $${paramIndex++}`);
       params.push(started_at);
     }
-    if (completed_at !== undefined) {
-      updates.push(`completed_at = $${paramIndex++}`);
-      params.push(completed_at);
-    }
+    // game_state é mesclado, nunca sobrescrito: as chaves enviadas substituem só as suas
     if (game_state !== undefined) {
-      updates.push(`game_state = $${paramIndex++}::jsonb`);
+      updates.push(`game_state = COALESCE(game_state, '{}'::jsonb) || $${paramIndex++}::jsonb`);
       params.push(JSON.stringify(game_state));
     }
 
     if (updates.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ error: 'No fields to update' });
     }
 
+    // A condição no status impede reativar uma sessão em andamento ou concluída
     params.push(sessionId);
-    const query = `UPDATE game_sessions SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`;
+    const query = `UPDATE game_sessions SET ${updates.join(', ')}
+      WHERE id = $${paramIndex}${status === 'active' ? ` AND status = 'pending'` : ''}
+      RETURNING *`;
 
     const result = await client.query(query, params);
 
     if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Game session not found' });
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Game session is not pending' });
     }
 
-    res.json(result.rows[0]);
+    await client.query('COMMIT');
+
+    const session = result.rows[0];
+    promoted.forEach((player) => {
+      realtime.broadcast(`room-${session.room_id}`, 'player-updated', player);
+    });
+    if (status === 'active') {
+      realtime.broadcast(`room-${session.room_id}`, 'game-session-started', session);
+    }
+
+    res.json(session);
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
     console.error('Error updating game session:', error);
     res.status(500).json({ error: error.message });
   } finally {
@@ -374,14 +580,79 @@ app.patch('/api/game-sessions/:sessionId', async (req, res) => {
   }
 });
 
-app.post('/api/game-sessions/:sessionId/player-state', async (req, res) => {
+// Conclusão de um jogo: resultados e pontuação numa única transação.
+// Chamadas repetidas (vários clientes, ou a própria simulação) não somam pontos de novo.
+async function completeGameSession(sessionId, results) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `SELECT * FROM game_sessions WHERE id = $1 FOR UPDATE`,
+      [sessionId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return { error: 'Game session not found', status: 404 };
+    }
+
+    let session = sessionResult.rows[0];
+    let alreadyCompleted = session.status === 'completed';
+
+    if (!alreadyCompleted && session.status !== 'active') {
+      await client.query('ROLLBACK');
+      return { error: 'Game session is not active', status: 409 };
+    }
+
+    if (!alreadyCompleted) {
+      const updated = await client.query(
+        `UPDATE game_sessions SET status = 'completed', results = $1::jsonb, completed_at = NOW()
+         WHERE id = $2 RETURNING *`,
+        [JSON.stringify(results), sessionId]
+      );
+      session = updated.rows[0];
+
+      for (const result of results) {
+        await client.query(
+          `UPDATE players SET total_score = total_score + $1 WHERE id = $2 AND room_id = $3`,
+          [result.points, result.player_id, session.room_id]
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+
+    const standingsResult = await client.query(
+      `SELECT * FROM players WHERE room_id = $1 ORDER BY total_score DESC, joined_at ASC`,
+      [session.room_id]
+    );
+    const standings = standingsResult.rows;
+
+    if (!alreadyCompleted) {
+      standings.forEach((player) => {
+        realtime.broadcast(`room-${session.room_id}`, 'player-updated', player);
+      });
+    }
+
+    return { session, standings, alreadyCompleted };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Os resultados vêm sempre da simulação do servidor, que conclui o jogo sozinha ao
+// terminar; os clientes só chamam para receber a classificação
+app.post('/api/game-sessions/:sessionId/complete', requirePlayer, async (req, res) => {
   const client = await pool.connect();
   try {
     const { sessionId } = req.params;
-    const { player_id, position, has_bomb } = req.body;
 
     const sessionResult = await client.query(
-      `SELECT game_state FROM game_sessions WHERE id = $1`,
+      `SELECT room_id, status FROM game_sessions WHERE id = $1`,
       [sessionId]
     );
 
@@ -389,38 +660,49 @@ app.post('/api/game-sessions/:sessionId/player-state', async (req, res) => {
       return res.status(404).json({ error: 'Game session not found' });
     }
 
-    let gameState = sessionResult.rows[0].game_state || {};
-    if (!gameState.players) {
-      gameState.players = {};
+    const session = sessionResult.rows[0];
+    if (session.room_id !== req.player.roomId) {
+      return res.status(403).json({ error: 'Player does not belong to this room' });
     }
 
-    gameState.players[player_id] = {
-      position,
-      has_bomb,
-      updated_at: new Date().toISOString()
-    };
+    // A simulação pode ter terminado nesta instância antes de gravar a conclusão
+    const simulation = await simulations.get(sessionId);
+    if (session.status !== 'completed' && !simulation?.finished) {
+      return res.status(409).json({ error: 'Game session is still running' });
+    }
+    const results = simulation?.finished ? simulation.results : [];
 
-    await client.query(
-      `UPDATE game_sessions SET game_state = $1::jsonb WHERE id = $2`,
-      [JSON.stringify(gameState), sessionId]
-    );
+    const outcome = await completeGameSession(sessionId, results);
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
 
-    res.json({ success: true });
+    res.json({
+      session: outcome.session,
+      standings: outcome.standings,
+      already_completed: outcome.alreadyCompleted
+    });
   } catch (error) {
-    console.error('Error updating player state:', error);
+    console.error('Error completing game session:', error);
     res.status(500).json({ error: error.message });
   } finally {
     client.release();
   }
 });
 
+// Estado de uma partida: ao vivo, se a simulação está rodando, ou o último checkpoint salvo
 app.get('/api/game-sessions/:sessionId/state', async (req, res) => {
+  const { sessionId } = req.params;
+  const simulation = await simulations.get(sessionId);
+  if (simulation && !simulation.finished) {
+    return res.json(getCheckpointState(simulation));
+  }
+
   const client = await pool.connect();
   try {
-    const { sessionId } = req.params;
 
     const result = await client.query(
-      `SELECT game_state FROM game_sessions WHERE id = $1`,
+      `SELECT game_state - 'simulation' AS game_state FROM game_sessions WHERE id = $1`,
       [sessionId]
     );
 
@@ -437,136 +719,578 @@ app.get('/api/game-sessions/:sessionId/state', async (req, res) => {
   }
 });
 
-// WebSocket para sincronização do jogo
-// Mapa para rastrear playerId por socket
-const socketToPlayer = new Map();
-const playerToSocket = new Map();
+// Histórico da sala: jogos concluídos, com duração e resultados, e os
+// jogadores para mostrar nomes e cores
+app.get('/api/rooms/:roomCode/history', async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const { roomCode } = req.params;
 
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+    const roomResult = await client.query(
+      `SELECT * FROM rooms WHERE UPPER(TRIM(room_code)) = UPPER(TRIM($1))`,
+      [roomCode]
+    );
 
-  socket.on('join-game', (data) => {
-    const gameSessionId = typeof data === 'string' ? data : data.gameSessionId;
-    const playerId = typeof data === 'object' ? data.playerId : null;
-    
-    socket.join(`game-${gameSessionId}`);
-    console.log(`Client ${socket.id} joined game ${gameSessionId}`);
-    
-    if (playerId) {
-      socketToPlayer.set(socket.id, { gameSessionId, playerId });
-      playerToSocket.set(playerId, socket.id);
+    if (roomResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Room not found' });
     }
-  });
 
-  socket.on('player-state-update', async (data) => {
-    const { gameSessionId, playerId, position, hasBomb } = data;
-    
-    // Atualizar estado no banco
-    try {
-      const client = await pool.connect();
-      const sessionResult = await client.query(
-        `SELECT game_state FROM game_sessions WHERE id = $1`,
-        [gameSessionId]
-      );
+    const room = roomResult.rows[0];
+    const playersResult = await client.query(
+      `SELECT * FROM players WHERE room_id = $1 ORDER BY joined_at ASC`,
+      [room.id]
+    );
+    // A duração vem do tempo da simulação no estado final; sessões sem ele
+    // (resultados enviados pelo host) usam os horários de início e fim
+    const gamesResult = await client.query(
+      `SELECT gs.id, gs.game_type, gs.game_number, gs.results, gs.participant_ids, gs.started_at, gs.completed_at,
+              COALESCE(
+                (gs.game_state->'final_snapshot'->>'elapsed')::integer,
+                (EXTRACT(EPOCH FROM (gs.completed_at - gs.started_at)) * 1000)::integer
+              ) AS duration_ms,
+              EXISTS (SELECT 1 FROM game_replays gr WHERE gr.game_session_id = gs.id) AS has_replay
+       FROM game_sessions gs
+       WHERE gs.room_id = $1 AND gs.status = 'completed'
+       ORDER BY gs.game_number ASC`,
+      [room.id]
+    );
+
+    res.json({ room, players: playersResult.rows, games: gamesResult.rows });
+  } catch (error) {
+    console.error('Error fetching room history:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+app.get('/api/game-sessions/:sessionId/replay', async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const { sessionId } = req.params;
+
+    const result = await client.query(
+      `SELECT log FROM game_replays WHERE game_session_id = $1`,
+      [sessionId]
+    );
 
-      if (sessionResult.rows.length > 0) {
-        let gameState = sessionResult.rows[0].game_state || {};
-        if (!gameState.players) {
-          gameState.players = {};
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Replay not found' });
+    }
+
+    res.json(result.rows[0].log);
+  } catch (error) {
+    console.error('Error fetching replay:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+// WebSocket para sincronização do jogo. Cada socket guarda seus canais em
+// socket.data.room ({ roomId, playerId }) e socket.data.game
+// ({ gameSessionId, playerId }); a presença entre instâncias fica no adaptador.
+
+// Simulações autoritativas rodando nesta instância, por game session
+const simulations = new Map();
+// Intervalo de tick de cada simulação em andamento
+const simulationTimers = new Map();
+// Sessões que devem mandar um snapshot completo no próximo tick (ex: alguém entrou)
+const keyframeRequests = new Set();
+const SIMULATION_RETENTION_MS = 60000;
+// O estado vive em memória: a cada KEYFRAME_INTERVAL_MS os clientes recebem um
+// snapshot completo e, entre eles, só deltas; o banco recebe um checkpoint a
+// cada CHECKPOINT_INTERVAL_MS e o estado final na conclusão. Após um restart ou
+// failover, a partida é retomada do último checkpoint (game_state.simulation)
+const KEYFRAME_INTERVAL_MS = 1000;
+const CHECKPOINT_INTERVAL_MS = 5000;
+// Gravações de cada simulação, em fila: os trechos do replay entram na ordem
+const pendingSaves = new Map();
+
+async function loadSimulation(gameSessionId) {
+  const client = await pool.connect();
+  try {
+    const sessionResult = await client.query(
+      `SELECT gs.id, gs.room_id, gs.game_type, gs.game_number, gs.status, gs.seed, gs.participant_ids,
+              gs.game_state->'simulation' AS checkpoint, r.settings, r.max_games
+       FROM game_sessions gs
+       JOIN rooms r ON r.id = gs.room_id
+       WHERE gs.id = $1`,
+      [gameSessionId]
+    );
+
+    // Jogos pendentes ainda não começaram e os concluídos já têm resultado
+    if (sessionResult.rows.length === 0 || sessionResult.rows[0].status !== 'active') {
+      return null;
+    }
+
+    const session = sessionResult.rows[0];
+    // Espectadores e quem entrou depois do início só recebem os snapshots.
+    // Sessões anteriores a participant_ids usam todos os jogadores da sala.
+    const playersResult = await client.query(
+      `SELECT * FROM players WHERE room_id = $1 AND NOT is_spectator ORDER BY joined_at ASC`,
+      [session.room_id]
+    );
+    const participantIds = session.participant_ids;
+    const players = participantIds.length > 0
+      ? playersResult.rows.filter((player) => participantIds.includes(player.id))
+      : playersResult.rows;
+
+    const simulation = createSimulation(session.game_type, {
+      gameSessionId,
+      players,
+      seed: session.seed,
+      settings: session.settings?.games?.[session.game_type],
+      scoring: session.settings?.scoring,
+      gameNumber: session.game_number,
+      totalGames: session.max_games
+    });
+    // A partida já estava rodando em outra instância (ou antes de um restart)
+    if (session.checkpoint) {
+      simulation.restore(session.checkpoint);
+    }
+    return simulation;
+  } finally {
+    client.release();
+  }
+}
+
+// Só jogadores da sala do jogo (participantes ou espectadores) podem pôr a simulação para rodar
+async function isSessionMember(player, gameSessionId) {
+  if (!player) return false;
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT room_id FROM game_sessions WHERE id = $1`,
+      [gameSessionId]
+    );
+    return result.rows[0]?.room_id === player.roomId;
+  } finally {
+    client.release();
+  }
+}
+
+// Carrega e roda a simulação nesta instância, se nenhuma outra já a assumiu;
+// sem ela aqui, devolve null e as mensagens vão pelo adaptador
+function getSimulation(gameSessionId) {
+  if (!simulations.has(gameSessionId)) {
+    const pending = realtime.claimSimulation(gameSessionId)
+      .then(async (claimed) => {
+        if (!claimed) {
+          simulations.delete(gameSessionId);
+          return null;
         }
 
-        gameState.players[playerId] = {
-          position,
-          has_bomb: hasBomb,
-          updated_at: new Date().toISOString()
-        };
+        const simulation = await loadSimulation(gameSessionId);
+        if (simulation) {
+          runSimulation(simulation);
+        } else {
+          simulations.delete(gameSessionId);
+          await realtime.releaseSimulation(gameSessionId);
+        }
+        return simulation;
+      })
+      .catch((error) => {
+        console.error('Error loading simulation:', error);
+        simulations.delete(gameSessionId);
+        return null;
+      });
+
+    simulations.set(gameSessionId, pending);
+  }
+
+  return simulations.get(gameSessionId);
+}
+
+function runSimulation(simulation) {
+  const channel = `game-${simulation.gameSessionId}`;
+  let previousSnapshot = null;
+  let sinceKeyframe = 0;
+  let sinceCheckpoint = 0;
+
+  const interval = setInterval(() => {
+    simulation.step();
+    simulation.takeEvents().forEach((event) => realtime.broadcast(channel, 'game-event', event));
+    const snapshot = simulation.getSnapshot();
+
+    sinceKeyframe += TICK_MS;
+    if (!previousSnapshot || sinceKeyframe >= KEYFRAME_INTERVAL_MS || keyframeRequests.delete(simulation.gameSessionId)) {
+      realtime.broadcast(channel, 'game-snapshot', snapshot);
+      sinceKeyframe = 0;
+    } else {
+      realtime.broadcast(channel, 'game-delta', diffGameSnapshot(previousSnapshot, snapshot));
+    }
+    previousSnapshot = snapshot;
+    // O replay guarda menos quadros que o socket; o último sempre entra
+    simulation.replay.recordFrame(simulation.tick, snapshot, { force: simulation.finished });
+
+    if (simulation.finished) {
+      clearInterval(interval);
+      simulationTimers.delete(simulation.gameSessionId);
+      finishSimulation(simulation);
+      return;
+    }
+
+    sinceCheckpoint += TICK_MS;
+    if (sinceCheckpoint >= CHECKPOINT_INTERVAL_MS) {
+      sinceCheckpoint = 0;
+      saveSimulationState(simulation, {
+        ...getCheckpointState(simulation, snapshot),
+        simulation: simulation.toCheckpoint()
+      });
+    }
+  }, TICK_MS);
+  simulationTimers.set(simulation.gameSessionId, interval);
+}
+
+// Outra instância assumiu a simulação (o lock caiu com a conexão): ela para aqui
+// e as mensagens seguintes vão pelo adaptador
+realtime.onSimulationLost((gameSessionId) => {
+  clearInterval(simulationTimers.get(gameSessionId));
+  simulationTimers.delete(gameSessionId);
+  simulations.delete(gameSessionId);
+  keyframeRequests.delete(gameSessionId);
+});
 
+function getCheckpointState(simulation, snapshot = simulation.getSnapshot()) {
+  return {
+    snapshot,
+    eliminated_players: simulation.eliminatedPlayers,
+    dropped_players: simulation.droppedPlayers,
+    disconnected_players: Array.from(simulation.disconnectedAt.keys())
+  };
+}
+
+// Mescla as chaves no game_state salvo (as demais são preservadas) e anexa ao
+// replay as entradas gravadas desde a última vez, na mesma transação: o log
+// salvo sempre termina no checkpoint salvo. O estado é serializado já aqui,
+// porque a simulação segue mudando enquanto a gravação espera na fila.
+function saveSimulationState(simulation, state, removeKeys = []) {
+  const { gameSessionId } = simulation;
+  const stateJson = JSON.stringify(state);
+  const logJson = JSON.stringify(simulation.replay.takeLog(TICK_MS));
+
+  const saving = (pendingSaves.get(gameSessionId) ?? Promise.resolve()).then(async () => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
         await client.query(
-          `UPDATE game_sessions SET game_state = $1::jsonb WHERE id = $2`,
-          [JSON.stringify(gameState), gameSessionId]
+          `UPDATE game_sessions
+           SET game_state = (COALESCE(game_state, '{}'::jsonb) - $3::text[]) || $1::jsonb
+           WHERE id = $2`,
+          [stateJson, gameSessionId, removeKeys]
         );
+        await client.query(
+          `INSERT INTO game_replays (game_session_id, log)
+           VALUES ($1, $2::jsonb)
+           ON CONFLICT (game_session_id) DO UPDATE
+           SET log = EXCLUDED.log || jsonb_build_object('entries', (game_replays.log->'entries') || (EXCLUDED.log->'entries'))`,
+          [gameSessionId, logJson]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw error;
+      } finally {
+        client.release();
       }
-      client.release();
     } catch (error) {
-      console.error('Error updating player state:', error);
+      console.error('Error saving game state:', error);
     }
+  });
+
+  pendingSaves.set(gameSessionId, saving);
+  saving.then(() => {
+    if (pendingSaves.get(gameSessionId) === saving) {
+      pendingSaves.delete(gameSessionId);
+    }
+  });
+  return saving;
+}
+
+async function finishSimulation(simulation) {
+  const { gameSessionId, results } = simulation;
 
-    // Broadcast para outros jogadores na mesma sala
-    socket.to(`game-${gameSessionId}`).emit('player-state-changed', {
-      playerId,
-      position,
-      hasBomb
+  // Conclusão gravada antes do aviso: os clientes pedem a classificação logo em seguida
+  try {
+    const outcome = await completeGameSession(gameSessionId, results);
+    if (outcome.error) {
+      console.error(`Could not complete game session ${gameSessionId}:`, outcome.error);
+    }
+  } catch (error) {
+    console.error('Error completing game session:', error);
+  }
+
+  realtime.broadcast(`game-${gameSessionId}`, 'game-completed', { gameSessionId, results });
+
+  // O estado final substitui o último checkpoint
+  const { snapshot, ...finalState } = getCheckpointState(simulation);
+  await saveSimulationState(simulation, { ...finalState, final_snapshot: snapshot }, ['snapshot', 'simulation']);
+
+  setTimeout(() => {
+    simulations.delete(gameSessionId);
+    realtime.releaseSimulation(gameSessionId).catch((error) => {
+      console.error('Error releasing simulation:', error);
     });
+  }, SIMULATION_RETENTION_MS);
+}
+
+// O próximo checkpoint já sai sem o jogador em disconnected_players
+function markPlayerReconnected(gameSessionId, playerId) {
+  realtime.broadcast(`game-${gameSessionId}`, 'player-reconnected', { playerId, gameSessionId });
+}
+
+// Migração de host: se o host some por mais que HOST_RECONNECT_GRACE_MS, o
+// próximo jogador conectado (por ordem de entrada) assume
+const HOST_RECONNECT_GRACE_MS = 10000;
+const pendingHostChecks = new Map();
+
+function scheduleHostCheck(roomId) {
+  if (pendingHostChecks.has(roomId)) return;
+
+  const timeout = setTimeout(() => {
+    pendingHostChecks.delete(roomId);
+    migrateHostIfGone(roomId).catch((error) => {
+      console.error('Error migrating host:', error);
+    });
+  }, HOST_RECONNECT_GRACE_MS);
+
+  pendingHostChecks.set(roomId, timeout);
+}
+
+async function migrateHostIfGone(roomId) {
+  const client = await pool.connect();
+  try {
+    const hostId = await getRoomHostId(client, roomId);
+    if (hostId && await realtime.isPlayerConnected(hostId)) return;
+
+    const playersResult = await client.query(
+      `SELECT id FROM players WHERE room_id = $1 AND NOT is_spectator ORDER BY joined_at ASC`,
+      [roomId]
+    );
+    let nextHost = null;
+    for (const player of playersResult.rows) {
+      if (player.id !== hostId && await realtime.isPlayerConnected(player.id)) {
+        nextHost = player;
+        break;
+      }
+    }
+    if (!nextHost) return;
+
+    // A condição no host atual evita sobrescrever uma migração concorrente
+    const result = await client.query(
+      `UPDATE rooms SET host_player_id = $1, updated_at = NOW()
+       WHERE id = $2 AND host_player_id IS NOT DISTINCT FROM $3
+       RETURNING *`,
+      [nextHost.id, roomId, hostId]
+    );
+
+    if (result.rows.length > 0) {
+      console.log(`Host of room ${roomId} changed from ${hostId} to ${nextHost.id}`);
+      realtime.broadcast(`room-${roomId}`, 'host-changed', {
+        roomId,
+        hostPlayerId: nextHost.id,
+        previousHostPlayerId: hostId
+      });
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Mensagens para uma simulação: tratadas aqui se ela roda nesta instância,
+// ou encaminhadas pelo adaptador para a instância dona
+function handleSimulationMessage(simulation, { type, playerId, input }) {
+  const { gameSessionId } = simulation;
+
+  switch (type) {
+    case 'join':
+      if (playerId) {
+        simulation.resetInput(playerId);
+        if (simulation.disconnectedAt.has(playerId)) {
+          simulation.handleReconnect(playerId);
+          markPlayerReconnected(gameSessionId, playerId);
+        }
+      }
+      if (simulation.finished) {
+        realtime.broadcast(`game-${gameSessionId}`, 'game-completed', { gameSessionId, results: simulation.results });
+      } else {
+        // Base para os deltas seguintes de quem acabou de entrar
+        keyframeRequests.add(gameSessionId);
+      }
+      break;
+    case 'input':
+      simulation.handleInput(playerId, input);
+      break;
+    case 'disconnect':
+      // A simulação espera RECONNECT_GRACE_MS antes de eliminar o jogador
+      simulation.handleDisconnect(playerId);
+      break;
+  }
+}
+
+async function sendToSimulation(gameSessionId, message, { load = false } = {}) {
+  const simulation = await (load ? getSimulation(gameSessionId) : simulations.get(gameSessionId));
+  if (simulation) {
+    handleSimulationMessage(simulation, message);
+  } else {
+    realtime.sendToSimulation(gameSessionId, message);
+  }
+}
+
+realtime.onSimulationMessage(async (gameSessionId, message) => {
+  const simulation = await simulations.get(gameSessionId);
+  if (simulation) {
+    handleSimulationMessage(simulation, message);
+  }
+});
+
+// Presença do jogador do socket: sala (se o token é dessa sala) e jogo atuais
+function syncPresence(socket) {
+  const playerId = socket.data.player?.playerId;
+  if (!playerId) return Promise.resolve();
+
+  const { room, game } = socket.data;
+  return realtime.setPresence(socket.id, {
+    playerId,
+    roomId: room?.playerId ? room.roomId : null,
+    gameSessionId: game?.gameSessionId ?? null
   });
+}
 
-  socket.on('game-state-update', async (data) => {
-    const { gameSessionId, gameState } = data;
-    
-    // Atualizar estado no banco
-    try {
-      const client = await pool.connect();
-      await client.query(
-        `UPDATE game_sessions SET game_state = $1::jsonb WHERE id = $2`,
-        [JSON.stringify(gameState), gameSessionId]
-      );
-      client.release();
-    } catch (error) {
-      console.error('Error updating game state:', error);
+function leaveRoomChannel(socket) {
+  const roomInfo = socket.data.room;
+  if (!roomInfo) return;
+
+  socket.leave(`room-${roomInfo.roomId}`);
+  socket.data.room = null;
+
+  if (roomInfo.playerId) {
+    realtime.broadcast(`room-${roomInfo.roomId}`, 'player-left', roomInfo);
+    scheduleHostCheck(roomInfo.roomId);
+  }
+}
+
+// O token (handshake.auth.token) identifica o jogador do socket; sem token o
+// socket só acompanha os canais, sem enviar inputs. Clientes de outra versão
+// do protocolo são recusados.
+io.use((socket, next) => {
+  const protocolVersion = socket.handshake.auth?.protocolVersion;
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    console.warn(`Rejected socket ${socket.id}: protocol version ${protocolVersion}, expected ${PROTOCOL_VERSION}`);
+    return next(new Error('Unsupported protocol version'));
+  }
+
+  socket.data.player = verifyPlayerToken(socket.handshake.auth?.token);
+  next();
+});
+
+io.on('connection', (socket) => {
+  console.log('Client connected:', socket.id);
+
+  // Toda mensagem do cliente passa pelo schema do protocolo antes do handler
+  const on = (event, handler) => {
+    socket.on(event, (payload) => {
+      const error = validateClientEvent(event, payload);
+      if (error) {
+        console.warn(`Rejected ${event} from ${socket.id}: ${error}`);
+        socket.emit('protocol-error', { event, error });
+        return;
+      }
+
+      Promise.resolve(handler(payload)).catch((handlerError) => {
+        console.error(`Error handling ${event}:`, handlerError);
+      });
+    });
+  };
+
+  // Canal da sala: eventos de jogadores, status da sala e início de jogos
+  on('join-room', async ({ roomId }) => {
+    const player = socket.data.player;
+    const playerId = player?.roomId === roomId ? player.playerId : null;
+
+    leaveRoomChannel(socket);
+    socket.join(`room-${roomId}`);
+    socket.data.room = { roomId, playerId };
+    console.log(`Client ${socket.id} joined room ${roomId}`);
+
+    await syncPresence(socket);
+
+    // Uma sala cujo host sumiu antes de haver outro jogador conectado
+    if (playerId) {
+      scheduleHostCheck(roomId);
+    }
+  });
+
+  on('leave-room', async () => {
+    leaveRoomChannel(socket);
+    await syncPresence(socket);
+  });
+
+  on('join-game', async ({ gameSessionId }) => {
+    // Sem token, ou com token de outra sala, o socket só acompanha os snapshots
+    const member = await isSessionMember(socket.data.player, gameSessionId);
+    const playerId = member ? socket.data.player.playerId : null;
+
+    const previousGame = socket.data.game;
+    if (previousGame && previousGame.gameSessionId !== gameSessionId) {
+      socket.leave(`game-${previousGame.gameSessionId}`);
     }
 
-    // Broadcast para outros jogadores
-    io.to(`game-${gameSessionId}`).emit('game-state-changed', gameState);
+    socket.join(`game-${gameSessionId}`);
+    socket.data.game = { gameSessionId, playerId };
+    console.log(`Client ${socket.id} joined game ${gameSessionId}`);
+
+    await syncPresence(socket);
+    await sendToSimulation(gameSessionId, { type: 'join', playerId }, { load: member });
+  });
+
+  on('leave-game', async () => {
+    const gameInfo = socket.data.game;
+    if (!gameInfo) return;
+
+    socket.leave(`game-${gameInfo.gameSessionId}`);
+    socket.data.game = null;
+    await syncPresence(socket);
+  });
+
+  // Inputs do jogador; posições e eliminações são decididas pela simulação
+  on('player-input', async (data) => {
+    const gameInfo = socket.data.game;
+    if (!gameInfo?.playerId) return;
+
+    await sendToSimulation(gameInfo.gameSessionId, { type: 'input', playerId: gameInfo.playerId, input: data });
   });
 
   socket.on('disconnect', async () => {
     console.log('Client disconnected:', socket.id);
-    
-    const playerInfo = socketToPlayer.get(socket.id);
-    if (playerInfo) {
-      const { gameSessionId, playerId } = playerInfo;
-      
-      // Notificar outros jogadores que este jogador desconectou
-      io.to(`game-${gameSessionId}`).emit('player-disconnected', {
-        playerId,
-        gameSessionId
-      });
-      
-      // Atualizar estado do jogo para marcar jogador como desconectado
-      try {
-        const client = await pool.connect();
-        const sessionResult = await client.query(
-          `SELECT game_state FROM game_sessions WHERE id = $1`,
-          [gameSessionId]
-        );
 
-        if (sessionResult.rows.length > 0) {
-          let gameState = sessionResult.rows[0].game_state || {};
-          if (!gameState.disconnected_players) {
-            gameState.disconnected_players = [];
-          }
-          if (!gameState.disconnected_players.includes(playerId)) {
-            gameState.disconnected_players.push(playerId);
-          }
-
-          await client.query(
-            `UPDATE game_sessions SET game_state = $1::jsonb WHERE id = $2`,
-            [JSON.stringify(gameState), gameSessionId]
-          );
-        }
-        client.release();
-      } catch (error) {
-        console.error('Error updating disconnected player:', error);
-      }
-      
-      socketToPlayer.delete(socket.id);
-      playerToSocket.delete(playerId);
+    try {
+      leaveRoomChannel(socket);
+      await realtime.removePresence(socket.id);
+
+      const gameInfo = socket.data.game;
+      if (!gameInfo?.playerId) return;
+
+      // O jogador já voltou por outro socket (ex: recarregou a página)
+      const { gameSessionId, playerId } = gameInfo;
+      if (await realtime.isPlayerInGame(playerId, gameSessionId)) return;
+
+      // Notificar outros jogadores que este jogador desconectou
+      realtime.broadcast(`game-${gameSessionId}`, 'player-disconnected', { playerId, gameSessionId });
+      await sendToSimulation(gameSessionId, { type: 'disconnect', playerId });
+    } catch (error) {
+      console.error('Error handling disconnect:', error);
     }
   });
 });
 
+await realtime.start();
+
 const PORT = process.env.PORT || 3000;
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`WebSocket server ready`);
 });
-
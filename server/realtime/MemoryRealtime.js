@@ -0,0 +1,56 @@
+// Adaptador de uma instância só: presença em memória e broadcasts direto no
+// Socket.IO local. Toda simulação pertence a esta instância.
+export class MemoryRealtime {
+  constructor({ io }) {
+    this.io = io;
+    this.presence = new Map();
+    this.simulationHandler = null;
+  }
+
+  async start() {}
+
+  async close() {}
+
+  broadcast(channel, event, payload) {
+    this.io.to(channel).emit(event, payload);
+  }
+
+  async setPresence(socketId, presence) {
+    this.presence.set(socketId, presence);
+  }
+
+  async removePresence(socketId) {
+    this.presence.delete(socketId);
+  }
+
+  async isPlayerConnected(playerId) {
+    for (const presence of this.presence.values()) {
+      if (presence.playerId === playerId && (presence.roomId || presence.gameSessionId)) return true;
+    }
+    return false;
+  }
+
+  async isPlayerInGame(playerId, gameSessionId) {
+    for (const presence of this.presence.values()) {
+      if (presence.playerId === playerId && presence.gameSessionId === gameSessionId) return true;
+    }
+    return false;
+  }
+
+  async claimSimulation() {
+    return true;
+  }
+
+  async releaseSimulation() {}
+
+  sendToSimulation(gameSessionId, message) {
+    this.simulationHandler?.(gameSessionId, message);
+  }
+
+  onSimulationMessage(handler) {
+    this.simulationHandler = handler;
+  }
+
+  // Sem outras instâncias, nenhuma simulação é tomada desta
+  onSimulationLost() {}
+}
@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import os from 'os';
+
+const NOTIFY_CHANNEL = 'demolish_realtime';
+// O payload de NOTIFY é limitado a 8000 bytes; mensagens maiores (ex:
+// snapshots com muitos jogadores) vão em pedaços de CHUNK_BYTES, em base64
+const MAX_NOTIFY_BYTES = 7900;
+const CHUNK_BYTES = 5000;
+const HEARTBEAT_MS = 10000;
+const INSTANCE_TIMEOUT_SECONDS = 30;
+const LISTENER_RETRY_MS = 1000;
+
+/**
+ * Adaptador para várias instâncias do servidor sobre o mesmo Postgres:
+ * broadcasts e mensagens para simulações viajam por LISTEN/NOTIFY, a presença
+ * dos sockets fica em realtime_presence e cada simulação pertence à instância
+ * que pegou o advisory lock da sessão. Os locks ficam numa conexão própria: se
+ * ela cai, os locks são pedidos de novo na reconexão e as simulações que outra
+ * instância assumiu nesse meio tempo param aqui. Instâncias sem heartbeat por
+ * mais de INSTANCE_TIMEOUT_SECONDS são removidas junto com a presença dos seus
+ * sockets.
+ */
+export class PostgresRealtime {
+  constructor({ io, pool, instanceId }) {
+    this.io = io;
+    this.pool = pool;
+    this.instanceId = instanceId || `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+    this.listener = null;
+    this.publisher = null;
+    this.locks = null;
+    this.heartbeat = null;
+    this.simulationHandler = null;
+    this.simulationLostHandler = null;
+    // Simulações cujo advisory lock esta instância detém
+    this.ownedSimulations = new Set();
+    this.nextMessageId = 1;
+    // Mensagem em pedaços sendo montada, por instância de origem
+    this.partialMessages = new Map();
+  }
+
+  async start() {
+    await this.registerInstance();
+    // Um único cliente publica, para que os NOTIFY cheguem na ordem de envio
+    this.publisher = await this.pool.connect();
+    await this.connectListener();
+    await this.connectLocks();
+
+    this.heartbeat = setInterval(() => {
+      this.registerInstance().catch((error) => {
+        console.error('Realtime heartbeat failed:', error);
+      });
+    }, HEARTBEAT_MS);
+
+    console.log(`Realtime adapter: postgres (instance ${this.instanceId})`);
+  }
+
+  async close() {
+    clearInterval(this.heartbeat);
+    await this.pool.query(`DELETE FROM realtime_instances WHERE id = $1`, [this.instanceId]);
+    this.listener?.release();
+    this.publisher?.release();
+    this.locks?.release();
+  }
+
+  async registerInstance() {
+    await this.pool.query(
+      `INSERT INTO realtime_instances (id) VALUES ($1)
+       ON CONFLICT (id) DO UPDATE SET last_seen = NOW()`,
+      [this.instanceId]
+    );
+    await this.pool.query(
+      `DELETE FROM realtime_instances WHERE last_seen < NOW() - make_interval(secs => $1)`,
+      [INSTANCE_TIMEOUT_SECONDS]
+    );
+  }
+
+  async connectListener() {
+    const client = await this.pool.connect();
+    client.on('notification', (notification) => this.handleNotification(notification.payload));
+    client.on('error', (error) => {
+      console.error('Realtime listener error:', error);
+      this.listener = null;
+      client.release(error);
+      setTimeout(() => {
+        this.connectListener().catch((retryError) => {
+          console.error('Could not reconnect realtime listener:', retryError);
+        });
+      }, LISTENER_RETRY_MS);
+    });
+
+    await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+    this.listener = client;
+  }
+
+  // Os advisory locks das simulações vivem nesta conexão, que não faz mais nada
+  async connectLocks() {
+    const client = await this.pool.connect();
+    client.on('error', (error) => {
+      console.error('Realtime lock connection error:', error);
+      this.locks = null;
+      client.release(error);
+      this.reconnectLocks();
+    });
+    this.locks = client;
+  }
+
+  reconnectLocks() {
+    setTimeout(() => {
+      this.connectLocks()
+        .then(() => this.reclaimSimulations())
+        .catch((error) => {
+          console.error('Could not reconnect realtime lock connection:', error);
+          this.reconnectLocks();
+        });
+    }, LISTENER_RETRY_MS);
+  }
+
+  // Os locks caíram junto com a conexão; quem não volta para esta instância para de rodar aqui
+  async reclaimSimulations() {
+    for (const gameSessionId of this.ownedSimulations) {
+      const result = await this.locks.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) AS claimed`,
+        [gameSessionId]
+      );
+      if (!result.rows[0].claimed) {
+        console.warn(`Lost simulation ${gameSessionId} to another instance`);
+        this.ownedSimulations.delete(gameSessionId);
+        this.simulationLostHandler?.(gameSessionId);
+      }
+    }
+  }
+
+  // Os pedaços de uma mensagem saem em sequência pelo mesmo publisher e chegam na mesma ordem
+  publish(message) {
+    const payload = JSON.stringify({ from: this.instanceId, ...message });
+    if (Buffer.byteLength(payload) <= MAX_NOTIFY_BYTES) {
+      this.notify(payload);
+      return;
+    }
+
+    const data = Buffer.from(payload);
+    const id = this.nextMessageId++;
+    const count = Math.ceil(data.length / CHUNK_BYTES);
+    for (let index = 0; index < count; index++) {
+      this.notify(JSON.stringify({
+        from: this.instanceId,
+        kind: 'chunk',
+        id,
+        index,
+        count,
+        data: data.subarray(index * CHUNK_BYTES, (index + 1) * CHUNK_BYTES).toString('base64')
+      }));
+    }
+  }
+
+  notify(payload) {
+    this.publisher.query(`SELECT pg_notify($1, $2)`, [NOTIFY_CHANNEL, payload]).catch((error) => {
+      console.error('Error publishing realtime message:', error);
+    });
+  }
+
+  handleNotification(payload) {
+    let message;
+    try {
+      message = JSON.parse(payload);
+    } catch {
+      return;
+    }
+    if (message.from === this.instanceId) return;
+
+    if (message.kind === 'chunk') {
+      this.handleChunk(message);
+    } else {
+      this.deliver(message);
+    }
+  }
+
+  // Um pedaço fora de sequência (ex: o listener reconectou no meio) descarta a mensagem
+  handleChunk({ from, id, index, count, data }) {
+    const partial = index === 0 ? { id, parts: [] } : this.partialMessages.get(from);
+    if (!partial || partial.id !== id || partial.parts.length !== index) {
+      console.warn(`Dropped incomplete realtime message ${id} from ${from}`);
+      this.partialMessages.delete(from);
+      return;
+    }
+
+    partial.parts.push(Buffer.from(data, 'base64'));
+    if (partial.parts.length < count) {
+      this.partialMessages.set(from, partial);
+      return;
+    }
+
+    this.partialMessages.delete(from);
+    try {
+      this.deliver(JSON.parse(Buffer.concat(partial.parts).toString()));
+    } catch (error) {
+      console.error('Invalid chunked realtime message:', error);
+    }
+  }
+
+  deliver(message) {
+    if (message.kind === 'broadcast') {
+      this.io.to(message.channel).emit(message.event, message.payload);
+    } else if (message.kind === 'simulation') {
+      this.simulationHandler?.(message.gameSessionId, message.message);
+    }
+  }
+
+  broadcast(channel, event, payload) {
+    this.io.to(channel).emit(event, payload);
+    this.publish({ kind: 'broadcast', channel, event, payload });
+  }
+
+  async setPresence(socketId, { playerId, roomId, gameSessionId }) {
+    await this.pool.query(
+      `INSERT INTO realtime_presence (socket_id, instance_id, player_id, room_id, game_session_id)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (socket_id) DO UPDATE
+       SET room_id = EXCLUDED.room_id, game_session_id = EXCLUDED.game_session_id, updated_at = NOW()`,
+      [socketId, this.instanceId, playerId, roomId, gameSessionId]
+    );
+  }
+
+  async removePresence(socketId) {
+    await this.pool.query(`DELETE FROM realtime_presence WHERE socket_id = $1`, [socketId]);
+  }
+
+  async isPlayerConnected(playerId) {
+    const result = await this.pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM realtime_presence
+         WHERE player_id = $1 AND (room_id IS NOT NULL OR game_session_id IS NOT NULL)
+       ) AS connected`,
+      [playerId]
+    );
+    return result.rows[0].connected;
+  }
+
+  async isPlayerInGame(playerId, gameSessionId) {
+    const result = await this.pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM realtime_presence WHERE player_id = $1 AND game_session_id = $2
+       ) AS connected`,
+      [playerId, gameSessionId]
+    );
+    return result.rows[0].connected;
+  }
+
+  async claimSimulation(gameSessionId) {
+    if (!this.locks) return false;
+    const result = await this.locks.query(
+      `SELECT pg_try_advisory_lock(hashtext($1)) AS claimed`,
+      [gameSessionId]
+    );
+    if (result.rows[0].claimed) {
+      this.ownedSimulations.add(gameSessionId);
+    }
+    return result.rows[0].claimed;
+  }
+
+  async releaseSimulation(gameSessionId) {
+    if (!this.ownedSimulations.delete(gameSessionId)) return;
+    await this.locks?.query(`SELECT pg_advisory_unlock(hashtext($1))`, [gameSessionId]);
+  }
+
+  // Entregue à instância dona da simulação; as demais ignoram
+  sendToSimulation(gameSessionId, message) {
+    this.publish({ kind: 'simulation', gameSessionId, message });
+  }
+
+  onSimulationMessage(handler) {
+    this.simulationHandler = handler;
+  }
+
+  onSimulationLost(handler) {
+    this.simulationLostHandler = handler;
+  }
+}
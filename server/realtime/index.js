@@ -0,0 +1,32 @@
+import { MemoryRealtime } from './MemoryRealtime.js';
+import { PostgresRealtime } from './PostgresRealtime.js';
+
+/**
+ * Camada de tempo real entre o Socket.IO e as instâncias do servidor. Os
+ * adaptadores implementam:
+ * - `start()` / `close()`
+ * - `broadcast(channel, event, payload)`: emite no canal em todas as instâncias
+ * - `setPresence(socketId, { playerId, roomId, gameSessionId })` / `removePresence(socketId)`
+ * - `isPlayerConnected(playerId)` e `isPlayerInGame(playerId, gameSessionId)`
+ * - `claimSimulation(gameSessionId)` / `releaseSimulation(gameSessionId)`: só
+ *   uma instância roda cada simulação
+ * - `sendToSimulation(gameSessionId, message)` e `onSimulationMessage(handler)`:
+ *   inputs e eventos de jogadores conectados em outra instância
+ * - `onSimulationLost(handler)`: a simulação passou para outra instância e
+ *   deve parar nesta
+ *
+ * REALTIME_ADAPTER escolhe o adaptador: `memory` (padrão, uma instância) ou
+ * `postgres` (várias instâncias no mesmo banco).
+ */
+export function createRealtime({ io, pool }) {
+  const adapter = process.env.REALTIME_ADAPTER || 'memory';
+
+  switch (adapter) {
+    case 'memory':
+      return new MemoryRealtime({ io });
+    case 'postgres':
+      return new PostgresRealtime({ io, pool, instanceId: process.env.INSTANCE_ID });
+    default:
+      throw new Error(`Unknown realtime adapter: ${adapter}`);
+  }
+}
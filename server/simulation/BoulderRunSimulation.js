@@ -0,0 +1,301 @@
+import { GameSimulation, FIELD_BOUNDS, FIELD_WIDTH, FIELD_HEIGHT } from './GameSimulation.js';
+import { GHOST_RADIUS } from './ghost.js';
+import { LANE_COUNT, LANE_WIDTH, WAVE_SCRIPT, laneCenter, patternBoulders } from './boulderWaves.js';
+
+// O percurso (terreno e itens) desce nessa velocidade, vezes a dificuldade
+const SCROLL_SPEED = 60;
+const MAX_DIFFICULTY = 3;
+// Rochas do terreno: blocos sólidos de uma ou duas faixas
+const TERRAIN_INTERVAL_MS = 4000;
+const TERRAIN_MIN_HEIGHT = 60;
+const TERRAIN_MAX_HEIGHT = 140;
+// Escudo: absorve uma pedra enquanto dura
+const PICKUP_INTERVAL_MS = 12000;
+const PICKUP_RADIUS = 14;
+const SHIELD_MS = 5000;
+// A pedra grande se parte ao passar dessa altura, em dois pedaços quicando
+const SPLIT_Y = FIELD_HEIGHT * 0.4;
+const SPLIT_RADIUS_FACTOR = 0.6;
+const SPLIT_SIDE_SPEED = 120;
+
+function touches(ghost, x, y, radius) {
+  const dx = ghost.x - x;
+  const dy = ghost.y - y;
+  const reach = radius + GHOST_RADIUS;
+  return dx * dx + dy * dy <= reach * reach;
+}
+
+// Tira o fantasma de dentro do bloco pelo lado mais próximo; devolve se havia sobreposição
+function pushOutOfRect(ghost, rect) {
+  const closestX = Math.max(rect.x, Math.min(rect.x + rect.width, ghost.x));
+  const closestY = Math.max(rect.y, Math.min(rect.y + rect.height, ghost.y));
+  const dx = ghost.x - closestX;
+  const dy = ghost.y - closestY;
+  const distanceSquared = dx * dx + dy * dy;
+  if (distanceSquared >= GHOST_RADIUS * GHOST_RADIUS) return false;
+
+  if (distanceSquared > 0) {
+    const distance = Math.sqrt(distanceSquared);
+    ghost.x += (dx / distance) * (GHOST_RADIUS - distance);
+    ghost.y += (dy / distance) * (GHOST_RADIUS - distance);
+    return true;
+  }
+
+  // Centro dentro do bloco: sai pelo lado de menor penetração
+  const exits = [
+    { axis: 'x', to: rect.x - GHOST_RADIUS, depth: ghost.x - rect.x },
+    { axis: 'x', to: rect.x + rect.width + GHOST_RADIUS, depth: rect.x + rect.width - ghost.x },
+    { axis: 'y', to: rect.y - GHOST_RADIUS, depth: ghost.y - rect.y },
+    { axis: 'y', to: rect.y + rect.height + GHOST_RADIUS, depth: rect.y + rect.height - ghost.y }
+  ];
+  const exit = exits.reduce((best, option) => (option.depth < best.depth ? option : best));
+  ghost[exit.axis] = exit.to;
+  return true;
+}
+
+function overlapsRect(ghost, rect) {
+  const closestX = Math.max(rect.x, Math.min(rect.x + rect.width, ghost.x));
+  const closestY = Math.max(rect.y, Math.min(rect.y + rect.height, ghost.y));
+  const dx = ghost.x - closestX;
+  const dy = ghost.y - closestY;
+  return dx * dx + dy * dy < GHOST_RADIUS * GHOST_RADIUS - 1;
+}
+
+/**
+ * Percurso rolando para baixo, em faixas: as pedras seguem o roteiro de
+ * ondas de boulderWaves.js, rochas do terreno descem junto com o chão e
+ * bloqueiam a passagem (quem fica espremido contra a borda de baixo é
+ * eliminado) e, de tempos em tempos, desce um escudo que absorve uma pedra.
+ * A dificuldade sobe 100% a cada `difficultyRampMs`, até MAX_DIFFICULTY,
+ * encurtando os intervalos e acelerando pedras e percurso.
+ *
+ * Sem desempate: atingidos no mesmo tick (ex: pela mesma pedra) dividem a posição.
+ */
+export class BoulderRunSimulation extends GameSimulation {
+  // Intervalo entre pedras: quanto menor, mais densa a chuva
+  static SETTINGS = {
+    spawnIntervalMs: { default: 800, min: 300, max: 1500 },
+    difficultyRampMs: { default: 30000, min: 15000, max: 60000 }
+  };
+
+  static CHECKPOINT_FIELDS = [
+    'boulders', 'terrain', 'pickups', 'nextEntityId', 'shields', 'scroll',
+    'waveNumber', 'waveElapsed', 'spawnTimer', 'terrainTimer', 'pickupTimer'
+  ];
+
+  setup() {
+    const startY = FIELD_HEIGHT - 80;
+    const spacing = FIELD_WIDTH / (this.players.length + 1);
+
+    this.players.forEach((player, index) => {
+      this.addGhost(player, spacing * (index + 1), startY);
+    });
+
+    this.boulders = [];
+    this.terrain = [];
+    this.pickups = [];
+    this.nextEntityId = 1;
+    this.shields = new Map();
+    this.scroll = 0;
+
+    this.waveNumber = 1;
+    this.waveElapsed = 0;
+    this.spawnTimer = this.settings.spawnIntervalMs;
+    this.terrainTimer = TERRAIN_INTERVAL_MS;
+    this.pickupTimer = PICKUP_INTERVAL_MS;
+  }
+
+  get wave() {
+    return WAVE_SCRIPT[(this.waveNumber - 1) % WAVE_SCRIPT.length];
+  }
+
+  get difficulty() {
+    return Math.min(MAX_DIFFICULTY, 1 + this.elapsed / this.settings.difficultyRampMs);
+  }
+
+  advanceWave(dt) {
+    this.waveElapsed += dt;
+    if (this.waveElapsed >= this.wave.durationMs) {
+      this.waveElapsed -= this.wave.durationMs;
+      this.waveNumber++;
+    }
+  }
+
+  spawnBoulders() {
+    patternBoulders(this.wave.pattern, this.random, this.difficulty).forEach((boulder) => {
+      this.boulders.push({ id: this.nextEntityId++, ...boulder });
+    });
+  }
+
+  // Uma ou duas faixas vizinhas, sempre deixando as outras livres
+  spawnTerrain() {
+    const lanes = 1 + this.random.int(2);
+    const lane = this.random.int(LANE_COUNT - lanes + 1);
+    const height = this.random.range(TERRAIN_MIN_HEIGHT, TERRAIN_MAX_HEIGHT);
+    this.terrain.push({ id: this.nextEntityId++, x: lane * LANE_WIDTH, y: -height, width: lanes * LANE_WIDTH, height });
+  }
+
+  spawnPickup() {
+    this.pickups.push({
+      id: this.nextEntityId++,
+      kind: 'shield',
+      x: laneCenter(this.random.int(LANE_COUNT)),
+      y: -PICKUP_RADIUS
+    });
+  }
+
+  // Contadores de spawn andam mais rápido com a dificuldade
+  runTimers(dt) {
+    const step = dt * this.difficulty;
+
+    this.spawnTimer -= step;
+    if (this.spawnTimer <= 0) {
+      this.spawnBoulders();
+      this.spawnTimer += this.settings.spawnIntervalMs * this.wave.interval;
+    }
+
+    this.terrainTimer -= step;
+    if (this.terrainTimer <= 0) {
+      this.spawnTerrain();
+      this.terrainTimer += TERRAIN_INTERVAL_MS;
+    }
+
+    this.pickupTimer -= dt;
+    if (this.pickupTimer <= 0) {
+      this.spawnPickup();
+      this.pickupTimer += PICKUP_INTERVAL_MS;
+    }
+  }
+
+  moveBoulders(seconds) {
+    const moved = [];
+    this.boulders.forEach((boulder) => {
+      boulder.x += boulder.vx * seconds;
+      boulder.y += boulder.vy * seconds;
+
+      if (boulder.kind === 'bouncer' && (boulder.x < boulder.radius || boulder.x > FIELD_WIDTH - boulder.radius)) {
+        boulder.x = Math.max(boulder.radius, Math.min(FIELD_WIDTH - boulder.radius, boulder.x));
+        boulder.vx = -boulder.vx;
+      }
+
+      if (boulder.kind === 'splitter' && boulder.y >= SPLIT_Y) {
+        const radius = boulder.radius * SPLIT_RADIUS_FACTOR;
+        [-1, 1].forEach((direction) => {
+          moved.push({
+            id: this.nextEntityId++,
+            kind: 'bouncer',
+            x: boulder.x + direction * radius,
+            y: boulder.y,
+            radius,
+            vx: direction * SPLIT_SIDE_SPEED * this.difficulty,
+            vy: boulder.vy
+          });
+        });
+        return;
+      }
+
+      moved.push(boulder);
+    });
+    this.boulders = moved.filter((boulder) => boulder.y - boulder.radius < FIELD_HEIGHT);
+  }
+
+  scrollCourse(seconds) {
+    const distance = SCROLL_SPEED * this.difficulty * seconds;
+    this.scroll += distance;
+
+    this.terrain.forEach((rock) => {
+      rock.y += distance;
+    });
+    this.terrain = this.terrain.filter((rock) => rock.y < FIELD_HEIGHT);
+
+    this.pickups.forEach((pickup) => {
+      pickup.y += distance;
+    });
+    this.pickups = this.pickups.filter((pickup) => pickup.y - PICKUP_RADIUS < FIELD_HEIGHT);
+  }
+
+  // Rochas empurram os fantasmas; quem não tem para onde ir é esmagado
+  collideTerrain() {
+    this.aliveGhosts().forEach((ghost) => {
+      this.terrain.forEach((rock) => {
+        if (!pushOutOfRect(ghost, rock)) return;
+        ghost.x = Math.max(FIELD_BOUNDS.minX, Math.min(FIELD_BOUNDS.maxX, ghost.x));
+        ghost.y = Math.max(FIELD_BOUNDS.minY, Math.min(FIELD_BOUNDS.maxY, ghost.y));
+        if (overlapsRect(ghost, rock)) {
+          this.eliminate(ghost.id);
+        }
+      });
+    });
+  }
+
+  update(dt) {
+    const seconds = dt / 1000;
+
+    this.advanceWave(dt);
+    this.runTimers(dt);
+
+    this.shields.forEach((remaining, playerId) => {
+      if (remaining <= dt) {
+        this.shields.delete(playerId);
+      } else {
+        this.shields.set(playerId, remaining - dt);
+      }
+    });
+
+    this.moveAliveGhosts(dt);
+    this.moveBoulders(seconds);
+    this.scrollCourse(seconds);
+    this.collideTerrain();
+
+    this.aliveGhosts().forEach((ghost) => {
+      const pickup = this.pickups.find((p) => touches(ghost, p.x, p.y, PICKUP_RADIUS));
+      if (pickup) {
+        this.pickups.splice(this.pickups.indexOf(pickup), 1);
+        this.shields.set(ghost.id, SHIELD_MS);
+      }
+    });
+
+    this.aliveGhosts().forEach((ghost) => {
+      const boulder = this.boulders.find((b) => touches(ghost, b.x, b.y, b.radius));
+      if (!boulder) return;
+
+      // O escudo se gasta destruindo a pedra
+      if (this.shields.delete(ghost.id)) {
+        this.boulders.splice(this.boulders.indexOf(boulder), 1);
+      } else {
+        this.eliminate(ghost.id);
+      }
+    });
+  }
+
+  serializeState() {
+    return {
+      boulders: this.boulders.map((boulder) => ({
+        id: boulder.id,
+        kind: boulder.kind,
+        x: Math.round(boulder.x),
+        y: Math.round(boulder.y),
+        radius: Math.round(boulder.radius)
+      })),
+      terrain: this.terrain.map((rock) => ({
+        id: rock.id,
+        x: Math.round(rock.x),
+        y: Math.round(rock.y),
+        width: Math.round(rock.width),
+        height: Math.round(rock.height)
+      })),
+      pickups: this.pickups.map((pickup) => ({
+        id: pickup.id,
+        kind: pickup.kind,
+        x: Math.round(pickup.x),
+        y: Math.round(pickup.y),
+        radius: PICKUP_RADIUS
+      })),
+      shields: Object.fromEntries(Array.from(this.shields).map(([id, remaining]) => [id, Math.round(remaining)])),
+      wave: this.waveNumber,
+      pattern: this.wave.pattern,
+      difficulty: Math.round(this.difficulty * 100) / 100,
+      scroll: Math.round(this.scroll)
+    };
+  }
+}
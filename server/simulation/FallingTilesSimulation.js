@@ -0,0 +1,122 @@
+import { GameSimulation, FIELD_WIDTH, FIELD_HEIGHT, FIELD_BOUNDS } from './GameSimulation.js';
+
+const GRID_COLS = 10;
+const GRID_ROWS = 6;
+const TILE_GAP = 4;
+const TILE_FALL_TIME = 600;
+const HUD_HEIGHT = 60;
+
+// Sem desempate: quem cai no mesmo tick (ex: pelo mesmo bloco) divide a posição
+export class FallingTilesSimulation extends GameSimulation {
+  // Velocidade do piso: intervalo entre ondas de avisos e tempo de aviso antes da queda
+  static SETTINGS = {
+    spawnIntervalMs: { default: 1400, min: 600, max: 2400 },
+    warningMs: { default: 1000, min: 400, max: 2000 }
+  };
+
+  static CHECKPOINT_FIELDS = ['tiles', 'spawnTimer'];
+
+  setup() {
+    this.platformBounds = {
+      x: TILE_GAP,
+      y: TILE_GAP + HUD_HEIGHT,
+      width: FIELD_WIDTH - TILE_GAP * 2,
+      height: FIELD_HEIGHT - TILE_GAP * 2 - HUD_HEIGHT
+    };
+
+    this.movementBounds = {
+      minX: Math.max(FIELD_BOUNDS.minX, this.platformBounds.x),
+      minY: Math.max(FIELD_BOUNDS.minY, this.platformBounds.y),
+      maxX: Math.min(FIELD_BOUNDS.maxX, this.platformBounds.x + this.platformBounds.width),
+      maxY: Math.min(FIELD_BOUNDS.maxY, this.platformBounds.y + this.platformBounds.height)
+    };
+
+    const tileSizeW = Math.floor((this.platformBounds.width - TILE_GAP * (GRID_COLS + 1)) / GRID_COLS);
+    const tileSizeH = Math.floor((this.platformBounds.height - TILE_GAP * (GRID_ROWS + 1)) / GRID_ROWS);
+    const tileSize = Math.min(tileSizeW, tileSizeH);
+
+    this.tiles = [];
+    for (let r = 0; r < GRID_ROWS; r++) {
+      for (let c = 0; c < GRID_COLS; c++) {
+        this.tiles.push({
+          id: `${r}-${c}`,
+          x: this.platformBounds.x + TILE_GAP + c * (tileSize + TILE_GAP),
+          y: this.platformBounds.y + TILE_GAP + r * (tileSize + TILE_GAP),
+          size: tileSize,
+          status: 'safe',
+          timer: 0
+        });
+      }
+    }
+
+    const centerX = this.platformBounds.x + this.platformBounds.width / 2;
+    const centerY = this.platformBounds.y + this.platformBounds.height / 2;
+    const radius = Math.min(this.platformBounds.width, this.platformBounds.height) / 3;
+    const angleStep = (Math.PI * 2) / this.players.length;
+
+    this.players.forEach((player, index) => {
+      const angle = angleStep * index;
+      this.addGhost(player, centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+    });
+
+    this.spawnTimer = this.settings.spawnIntervalMs;
+  }
+
+  spawnWarnings() {
+    const safeTiles = this.tiles.filter((tile) => tile.status === 'safe');
+    const count = this.random.int(4) + 1;
+
+    for (let i = 0; i < count && safeTiles.length > 0; i++) {
+      const tile = safeTiles.splice(this.random.int(safeTiles.length), 1)[0];
+      tile.status = 'warning';
+      tile.timer = this.settings.warningMs;
+    }
+  }
+
+  update(dt) {
+    this.spawnTimer -= dt;
+    if (this.spawnTimer <= 0) {
+      this.spawnWarnings();
+      this.spawnTimer += this.settings.spawnIntervalMs;
+    }
+
+    this.tiles.forEach((tile) => {
+      if (tile.status !== 'warning' && tile.status !== 'fallen') return;
+
+      tile.timer -= dt;
+      if (tile.timer > 0) return;
+
+      if (tile.status === 'warning') {
+        tile.status = 'fallen';
+        tile.timer = TILE_FALL_TIME;
+      } else {
+        tile.status = 'removed';
+      }
+    });
+
+    this.moveAliveGhosts(dt, this.movementBounds);
+
+    this.tiles.forEach((tile) => {
+      if (tile.status !== 'fallen') return;
+
+      this.aliveGhosts().forEach((ghost) => {
+        if (
+          ghost.x > tile.x &&
+          ghost.x < tile.x + tile.size &&
+          ghost.y > tile.y &&
+          ghost.y < tile.y + tile.size
+        ) {
+          this.eliminate(ghost.id);
+        }
+      });
+    });
+  }
+
+  serializeState() {
+    return {
+      tiles: this.tiles
+        .filter((tile) => tile.status !== 'safe')
+        .map((tile) => ({ id: tile.id, status: tile.status }))
+    };
+  }
+}
@@ -0,0 +1,402 @@
+import { createGhost, moveGhost, updateDash, GHOST_RADIUS } from './ghost.js';
+import { createRandom, simpleHash } from './random.js';
+import { scoreResults } from './scoring.js';
+import { ReplayRecorder } from './replay.js';
+
+export const TICK_RATE = 30;
+export const TICK_MS = 1000 / TICK_RATE;
+export const FIELD_WIDTH = 800;
+export const FIELD_HEIGHT = 600;
+// Tempo que um jogador desconectado tem para voltar antes de ser eliminado
+export const RECONNECT_GRACE_MS = 10000;
+
+export const FIELD_BOUNDS = {
+  minX: GHOST_RADIUS,
+  minY: GHOST_RADIUS,
+  maxX: FIELD_WIDTH - GHOST_RADIUS,
+  maxY: FIELD_HEIGHT - GHOST_RADIUS
+};
+
+// Parâmetros do jogo vindos de rooms.settings, limitados à faixa de cada um
+function resolveSettings(definitions, values = {}) {
+  const settings = {};
+  Object.entries(definitions).forEach(([key, { default: fallback, min, max }]) => {
+    const value = Number(values?.[key]);
+    settings[key] = Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  });
+  return settings;
+}
+
+// Maps não passam pelo JSON: no checkpoint viram { map: [[chave, valor], ...] }
+function encodeField(value) {
+  return value instanceof Map ? { map: Array.from(value) } : value;
+}
+
+function decodeField(value) {
+  return Array.isArray(value?.map) ? new Map(value.map) : value;
+}
+
+function roundVector({ x, y }) {
+  return { x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 };
+}
+
+/**
+ * Simulação autoritativa de um minigame. Cada subclasse implementa
+ * `setup()`, `update(dt)` e `serializeState()`; esta classe cuida dos
+ * inputs, das eliminações e do ranking final. Toda aleatoriedade do jogo
+ * deve vir de `this.random`, semeado com game_sessions.seed. Os parâmetros
+ * configuráveis pelo host ficam em `static SETTINGS` ({ default, min, max })
+ * e chegam resolvidos em `this.settings`. Os pontos vêm de scoring.js; cada
+ * jogo pode apontar façanhas para o bônus em `getFeats()`. O estado mutável
+ * criado em `setup()` é listado em `static CHECKPOINT_FIELDS`: ele entra em
+ * `toCheckpoint()` e volta em `restore()` quando outra instância (ou a mesma,
+ * após um restart) retoma a partida.
+ *
+ * Eliminados no mesmo tick empatam: dividem a posição e os pontos, a menos
+ * que o jogo desempate em `compareTied(a, b)`. Se ninguém sobra, o último
+ * grupo eliminado divide o primeiro lugar. Inputs e eliminações vão para o
+ * log de replay (`this.replay`), junto com os quadros que o index.js grava.
+ * Eventos pontuais do jogo (explosões...) saem por `emitEvent()` e são
+ * transmitidos em 'game-event' antes do snapshot do tick.
+ */
+export class GameSimulation {
+  static SETTINGS = {};
+  static CHECKPOINT_FIELDS = [];
+
+  constructor({ gameSessionId, gameType, players, seed, settings, scoring, gameNumber, totalGames }) {
+    this.gameSessionId = gameSessionId;
+    this.gameType = gameType;
+    this.players = players;
+    this.settings = resolveSettings(this.constructor.SETTINGS, settings);
+    this.scoring = { scoring, gameNumber, totalGames };
+    this.random = createRandom(seed ?? simpleHash(gameSessionId));
+    this.ghosts = new Map();
+    this.inputs = new Map();
+    this.eliminatedPlayers = [];
+    // Tick de cada eliminação, para agrupar os empates
+    this.eliminatedAtTick = new Map();
+    // Eliminados por desconexão: ficam no fim do ranking, sem pontos
+    this.droppedPlayers = [];
+    this.disconnectedAt = new Map();
+    this.tick = 0;
+    this.elapsed = 0;
+    this.finished = false;
+    this.results = null;
+    this.replay = new ReplayRecorder(gameType);
+    // Eventos emitidos no tick atual, à espera de transmissão
+    this.pendingEvents = [];
+
+    players.forEach((player) => {
+      this.inputs.set(player.id, { dx: 0, dy: 0, action: false, holding: false, bracing: false, seq: 0 });
+    });
+
+    if (players.length < 2) {
+      this.results = scoreResults(players.map((player) => ({
+        player_id: player.id,
+        player_name: player.player_name,
+        rank: 1,
+        dropped: false
+      })), this.scoring);
+      this.finished = true;
+      return;
+    }
+
+    this.setup();
+  }
+
+  setup() {}
+
+  update() {}
+
+  serializeState() {
+    return {};
+  }
+
+  // [{ feat, playerIds }] para os bônus de façanhas
+  getFeats() {
+    return [];
+  }
+
+  // Desempate entre eliminados no mesmo tick: negativo coloca `a` à frente,
+  // 0 mantém o empate
+  compareTied() {
+    return 0;
+  }
+
+  // Estado completo da partida, em JSON, para o game_state.simulation
+  toCheckpoint() {
+    const fields = {};
+    this.constructor.CHECKPOINT_FIELDS.forEach((key) => {
+      fields[key] = encodeField(this[key]);
+    });
+
+    return {
+      tick: this.tick,
+      elapsed: this.elapsed,
+      random: this.random.getState(),
+      ghosts: Array.from(this.ghosts.values()),
+      eliminatedPlayers: this.eliminatedPlayers,
+      eliminatedAtTick: Array.from(this.eliminatedAtTick),
+      droppedPlayers: this.droppedPlayers,
+      disconnectedAt: Array.from(this.disconnectedAt),
+      replay: this.replay.toCheckpoint(),
+      fields
+    };
+  }
+
+  // Retoma a partida do checkpoint, sobre a simulação recém-criada com os
+  // mesmos jogadores e a mesma semente
+  restore(checkpoint) {
+    if (this.finished) return;
+
+    this.tick = checkpoint.tick;
+    this.elapsed = checkpoint.elapsed;
+    this.random.setState(checkpoint.random);
+    checkpoint.ghosts.forEach((saved) => {
+      const ghost = this.ghosts.get(saved.id);
+      if (ghost) Object.assign(ghost, saved);
+    });
+    this.eliminatedPlayers = checkpoint.eliminatedPlayers;
+    this.eliminatedAtTick = new Map(checkpoint.eliminatedAtTick);
+    this.droppedPlayers = checkpoint.droppedPlayers;
+    this.disconnectedAt = new Map(checkpoint.disconnectedAt);
+    this.replay.restore(checkpoint.replay);
+    this.constructor.CHECKPOINT_FIELDS.forEach((key) => {
+      if (key in checkpoint.fields) {
+        this[key] = decodeField(checkpoint.fields[key]);
+      }
+    });
+  }
+
+  addGhost(player, x, y) {
+    const ghost = createGhost(player, x, y);
+    this.ghosts.set(player.id, ghost);
+    return ghost;
+  }
+
+  handleInput(playerId, { seq, dx, dy, action, holding, bracing }) {
+    const input = this.inputs.get(playerId);
+    if (!input || typeof seq !== 'number' || seq <= input.seq) return;
+
+    input.seq = seq;
+    input.dx = Math.sign(Number(dx) || 0);
+    input.dy = Math.sign(Number(dy) || 0);
+    input.holding = !!holding;
+    input.bracing = !!bracing;
+    if (action) {
+      input.action = true;
+    }
+    this.replay.recordInput(this.tick, playerId, {
+      dx: input.dx,
+      dy: input.dy,
+      action: !!action,
+      holding: input.holding,
+      bracing: input.bracing
+    });
+  }
+
+  // Um cliente que (re)entra no jogo recomeça a numeração dos inputs
+  resetInput(playerId) {
+    const input = this.inputs.get(playerId);
+    if (!input) return;
+    input.seq = 0;
+    input.dx = 0;
+    input.dy = 0;
+    input.action = false;
+    input.holding = false;
+    input.bracing = false;
+  }
+
+  // O fantasma fica parado durante a janela de reconexão
+  handleDisconnect(playerId) {
+    if (this.finished || !this.isAlive(playerId)) return;
+    this.resetInput(playerId);
+    this.disconnectedAt.set(playerId, this.elapsed);
+    this.replay.recordEvent(this.tick, 'disconnected', playerId);
+  }
+
+  handleReconnect(playerId) {
+    if (!this.disconnectedAt.delete(playerId)) return;
+    this.replay.recordEvent(this.tick, 'reconnected', playerId);
+  }
+
+  // Chamado quando a janela de reconexão expira
+  dropPlayer(playerId) {
+    if (!this.isAlive(playerId)) return;
+    this.droppedPlayers.push(playerId);
+    this.eliminate(playerId);
+  }
+
+  expireDisconnected() {
+    this.disconnectedAt.forEach((since, playerId) => {
+      if (this.elapsed - since < RECONNECT_GRACE_MS) return;
+      this.disconnectedAt.delete(playerId);
+      this.dropPlayer(playerId);
+    });
+  }
+
+  // Consome a ação pendente do jogador (dash ou empurrão), se houver
+  consumeAction(playerId) {
+    const input = this.inputs.get(playerId);
+    if (!input || !input.action) return false;
+    input.action = false;
+    return true;
+  }
+
+  isAlive(playerId) {
+    return this.ghosts.has(playerId) && !this.eliminatedPlayers.includes(playerId);
+  }
+
+  aliveGhosts() {
+    return Array.from(this.ghosts.values()).filter((ghost) => this.isAlive(ghost.id));
+  }
+
+  moveAliveGhosts(dt, bounds = FIELD_BOUNDS) {
+    this.aliveGhosts().forEach((ghost) => {
+      const input = this.inputs.get(ghost.id);
+      moveGhost(ghost, input.dx, input.dy, dt, bounds);
+      updateDash(ghost, dt);
+    });
+  }
+
+  eliminate(playerId) {
+    if (!this.isAlive(playerId)) return;
+    this.eliminatedPlayers.push(playerId);
+    this.eliminatedAtTick.set(playerId, this.tick);
+    this.replay.recordEvent(this.tick, this.droppedPlayers.includes(playerId) ? 'dropped' : 'eliminated', playerId);
+  }
+
+  // event: { type, ...campos do evento } conforme GAME_EVENT_SHAPES do protocolo
+  emitEvent(event) {
+    const message = { gameSessionId: this.gameSessionId, gameType: this.gameType, tick: this.tick, ...event };
+    this.pendingEvents.push(message);
+    this.replay.recordGameEvent(this.tick, message);
+  }
+
+  takeEvents() {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
+  }
+
+  step() {
+    if (this.finished) return;
+
+    this.update(TICK_MS);
+    this.tick++;
+    this.elapsed += TICK_MS;
+    this.expireDisconnected();
+    this.checkForWinner();
+  }
+
+  checkForWinner() {
+    if (this.finished) return;
+
+    const alive = this.aliveGhosts();
+    if (alive.length > 1) return;
+
+    // Um fantasma parado esperando reconexão não vence: ele cai e o último
+    // eliminado conectado fica com o primeiro lugar
+    let winner = alive[0];
+    if (winner && this.disconnectedAt.has(winner.id)) {
+      this.disconnectedAt.delete(winner.id);
+      this.dropPlayer(winner.id);
+      winner = null;
+    }
+
+    this.results = scoreResults(this.buildRanking(winner), { ...this.scoring, feats: this.getFeats() });
+    this.finished = true;
+  }
+
+  // Vencedor, eliminados do último ao primeiro (agrupados por tick) e, no
+  // fim, quem caiu por desconexão, todos empatados na última posição
+  buildRanking(winner) {
+    const dropped = new Set(this.droppedPlayers);
+    const totalPlayers = this.players.length - dropped.size;
+    const results = [];
+
+    if (winner) {
+      results.push({
+        player_id: winner.id,
+        player_name: winner.name,
+        rank: 1,
+        dropped: false
+      });
+    }
+
+    const groups = [];
+    this.eliminatedPlayers.forEach((playerId) => {
+      if (!this.ghosts.has(playerId) || dropped.has(playerId)) return;
+      const tick = this.eliminatedAtTick.get(playerId);
+      const lastGroup = groups[groups.length - 1];
+      if (lastGroup && lastGroup.tick === tick) {
+        lastGroup.playerIds.push(playerId);
+      } else {
+        groups.push({ tick, playerIds: [playerId] });
+      }
+    });
+
+    groups.reverse().forEach(({ playerIds }) => {
+      const ordered = [...playerIds].sort((a, b) => this.compareTied(a, b));
+      ordered.forEach((playerId, index) => {
+        const previous = results[results.length - 1];
+        const tiedWithPrevious = index > 0 && this.compareTied(ordered[index - 1], playerId) === 0;
+        results.push({
+          player_id: playerId,
+          player_name: this.ghosts.get(playerId).name,
+          rank: tiedWithPrevious ? previous.rank : results.length + 1,
+          dropped: false
+        });
+      });
+    });
+
+    const rankedIds = new Set(results.map((r) => r.player_id));
+    this.players.forEach((player) => {
+      if (!rankedIds.has(player.id) && !dropped.has(player.id)) {
+        results.push({
+          player_id: player.id,
+          player_name: player.player_name,
+          rank: totalPlayers,
+          dropped: false
+        });
+      }
+    });
+
+    const droppedRank = results.length + 1;
+    this.droppedPlayers.forEach((playerId) => {
+      const player = this.players.find((p) => p.id === playerId);
+      if (!player) return;
+      results.push({
+        player_id: player.id,
+        player_name: player.player_name,
+        rank: droppedRank,
+        dropped: true
+      });
+    });
+
+    return results.sort((a, b) => a.rank - b.rank);
+  }
+
+  getSnapshot() {
+    return {
+      gameSessionId: this.gameSessionId,
+      gameType: this.gameType,
+      tick: this.tick,
+      elapsed: Math.round(this.elapsed),
+      players: Array.from(this.ghosts.values()).map((ghost) => ({
+        id: ghost.id,
+        x: Math.round(ghost.x * 10) / 10,
+        y: Math.round(ghost.y * 10) / 10,
+        // Usados pelo cliente para refazer a previsão a partir deste estado
+        velocity: roundVector(ghost.velocity),
+        knockback: roundVector(ghost.knockback),
+        isDashing: ghost.isDashing,
+        dashCooldown: Math.round(ghost.dashCooldown),
+        hasBomb: ghost.hasBomb,
+        eliminated: !this.isAlive(ghost.id),
+        lastInputSeq: this.inputs.get(ghost.id)?.seq ?? 0
+      })),
+      state: this.serializeState()
+    };
+  }
+}
@@ -0,0 +1,337 @@
+import { GameSimulation, FIELD_BOUNDS, FIELD_WIDTH, FIELD_HEIGHT } from './GameSimulation.js';
+import { applyKnockback, collideGhosts, distanceBetween, moveGhost, updateDash, GHOST_RADIUS } from './ghost.js';
+import { featLeaders } from './scoring.js';
+
+const PUSH_DURATION = 300;
+// Aceleração aplicada ao empurrado enquanto o empurrão dura (pixels/s²)
+const PUSH_ACCELERATION = 18000;
+const PUSH_RANGE = 50;
+// Empurrão carregado: segurar a ação até MAX_CHARGE_MS leva a força de
+// MIN_PUSH_STRENGTH (toque rápido) a MAX_PUSH_STRENGTH
+const MAX_CHARGE_MS = 1000;
+const MIN_PUSH_STRENGTH = 1;
+const MAX_PUSH_STRENGTH = 2.5;
+// Quem firma fica parado e pesa isso em colisões e empurrões
+const BRACE_MASS = 3;
+const PLATFORM_MARGIN = 100;
+// A cada passo a plataforma perde essa fração do tamanho original, até o mínimo
+const SHRINK_STEP = 0.15;
+const MIN_PLATFORM_SCALE = 0.4;
+// A borda que vai cair pisca esse tempo antes
+const CRUMBLE_WARNING_MS = 3000;
+// Meia largura dos braços da cruz, em fração da meia largura da plataforma
+const CROSS_ARM = 0.4;
+// Distância do centro em que os fantasmas nascem, em fração do meio lado menor
+const SPAWN_DISTANCE = { rectangle: 2 / 3, circle: 2 / 3, cross: 0.5 };
+// Obstáculos: para-choques girando em volta do centro da plataforma
+const OBSTACLE_RADIUS = 18;
+const OBSTACLE_ORBIT = 0.55;
+const OBSTACLE_SPEED = 0.8;
+const OBSTACLE_KNOCKBACK = 500;
+const OBSTACLE_HIT_COOLDOWN = 400;
+
+// Valores de arenaShape
+export const PLATFORM_SHAPES = ['rectangle', 'circle', 'cross'];
+
+// Ponto dentro da forma, em coordenadas normalizadas pela meia largura/altura
+function platformContains({ shape, x, y, width, height }, pointX, pointY) {
+  const u = Math.abs((pointX - (x + width / 2)) / (width / 2));
+  const v = Math.abs((pointY - (y + height / 2)) / (height / 2));
+  if (shape === 'circle') return u * u + v * v <= 1;
+  if (shape === 'cross') return (u <= CROSS_ARM && v <= 1) || (u <= 1 && v <= CROSS_ARM);
+  return u <= 1 && v <= 1;
+}
+
+function roundPlatform({ shape, x, y, width, height }) {
+  return { shape, x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+}
+
+/**
+ * Plataforma em forma de retângulo, círculo ou cruz que encolhe em passos a
+ * cada `shrinkIntervalMs`; a faixa que vai cair é anunciada
+ * CRUMBLE_WARNING_MS antes (`crumbling`). Para-choques giram em volta do
+ * centro e arremessam quem encostar. Cai quem sai da forma real da
+ * plataforma, não da caixa em volta dela.
+ *
+ * Os fantasmas colidem entre si e trocam momento conforme a massa. O
+ * empurrão carrega enquanto a ação é segurada e sai ao soltar, na direção do
+ * input; firmar (tecla de firmar segurada) deixa o fantasma parado e mais
+ * pesado, sem poder empurrar.
+ *
+ * Desempate: entre quem cai da plataforma no mesmo tick, fica à frente quem
+ * acertou mais empurrões.
+ */
+export class PlatformPushSimulation extends GameSimulation {
+  static SETTINGS = {
+    pushCooldownMs: { default: 2000, min: 1000, max: 4000 },
+    arenaShape: { default: 0, min: 0, max: 2 },
+    shrinkIntervalMs: { default: 15000, min: 8000, max: 30000 },
+    obstacleCount: { default: 2, min: 0, max: 4 }
+  };
+
+  static CHECKPOINT_FIELDS = ['scale', 'nextShrinkAt', 'platform', 'crumbling', 'obstacles', 'obstacleHits', 'pushStates'];
+
+  setup() {
+    this.shape = PLATFORM_SHAPES[Math.round(this.settings.arenaShape)];
+    // O círculo usa o lado menor nas duas direções
+    const baseWidth = FIELD_WIDTH - PLATFORM_MARGIN * 2;
+    const baseHeight = FIELD_HEIGHT - PLATFORM_MARGIN * 2;
+    this.baseSize = this.shape === 'circle'
+      ? { width: Math.min(baseWidth, baseHeight), height: Math.min(baseWidth, baseHeight) }
+      : { width: baseWidth, height: baseHeight };
+    this.scale = 1;
+    this.nextShrinkAt = this.settings.shrinkIntervalMs;
+    this.platform = this.platformAt(this.scale);
+    this.crumbling = null;
+
+    const centerX = FIELD_WIDTH / 2;
+    const centerY = FIELD_HEIGHT / 2;
+    const radius = (Math.min(this.baseSize.width, this.baseSize.height) / 2) * SPAWN_DISTANCE[this.shape];
+    const angleStep = (Math.PI * 2) / this.players.length;
+
+    const obstacleCount = Math.round(this.settings.obstacleCount);
+    this.obstacles = Array.from({ length: obstacleCount }, (_, index) => ({
+      id: index + 1,
+      angle: (Math.PI * 2 * index) / obstacleCount,
+      x: centerX,
+      y: centerY
+    }));
+    this.positionObstacles(0);
+    // Último toque de cada fantasma em um obstáculo, para não arremessar a cada tick
+    this.obstacleHits = new Map();
+
+    this.pushStates = new Map();
+
+    this.players.forEach((player, index) => {
+      const angle = angleStep * index;
+      this.addGhost(player, centerX + Math.cos(angle) * radius, centerY + Math.sin(angle) * radius);
+      this.pushStates.set(player.id, {
+        direction: null,
+        elapsed: 0,
+        cooldown: 0,
+        landed: false,
+        pushesLanded: 0,
+        // Tempo de carga enquanto a ação é segurada; null sem carga
+        charge: null,
+        strength: MIN_PUSH_STRENGTH,
+        bracing: false
+      });
+    });
+  }
+
+  // Plataforma centrada no campo, com o tamanho original vezes `scale`
+  platformAt(scale) {
+    const width = this.baseSize.width * scale;
+    const height = this.baseSize.height * scale;
+    return {
+      shape: this.shape,
+      x: (FIELD_WIDTH - width) / 2,
+      y: (FIELD_HEIGHT - height) / 2,
+      width,
+      height
+    };
+  }
+
+  // Passos de encolhimento: aviso da borda que cai e, no tempo marcado, a queda
+  updatePlatform() {
+    if (this.scale <= MIN_PLATFORM_SCALE) return;
+
+    const nextScale = Math.max(MIN_PLATFORM_SCALE, this.scale - SHRINK_STEP);
+    if (this.elapsed >= this.nextShrinkAt) {
+      this.scale = nextScale;
+      this.platform = this.platformAt(this.scale);
+      this.crumbling = null;
+      this.nextShrinkAt += this.settings.shrinkIntervalMs;
+    } else if (!this.crumbling && this.elapsed >= this.nextShrinkAt - CRUMBLE_WARNING_MS) {
+      this.crumbling = this.platformAt(nextScale);
+    }
+  }
+
+  positionObstacles(dt) {
+    const centerX = FIELD_WIDTH / 2;
+    const centerY = FIELD_HEIGHT / 2;
+    const orbit = (Math.min(this.platform.width, this.platform.height) / 2) * OBSTACLE_ORBIT;
+    this.obstacles.forEach((obstacle) => {
+      obstacle.angle += OBSTACLE_SPEED * (dt / 1000);
+      obstacle.x = centerX + Math.cos(obstacle.angle) * orbit;
+      obstacle.y = centerY + Math.sin(obstacle.angle) * orbit;
+    });
+  }
+
+  hitObstacles(dt) {
+    this.obstacleHits.forEach((cooldown, playerId) => {
+      if (cooldown <= dt) {
+        this.obstacleHits.delete(playerId);
+      } else {
+        this.obstacleHits.set(playerId, cooldown - dt);
+      }
+    });
+
+    this.aliveGhosts().forEach((ghost) => {
+      if (this.obstacleHits.has(ghost.id)) return;
+      const obstacle = this.obstacles.find((o) => distanceBetween(o, ghost) < OBSTACLE_RADIUS + GHOST_RADIUS);
+      if (!obstacle) return;
+
+      const distance = distanceBetween(obstacle, ghost) || 1;
+      applyKnockback(
+        ghost,
+        ((ghost.x - obstacle.x) / distance) * OBSTACLE_KNOCKBACK,
+        ((ghost.y - obstacle.y) / distance) * OBSTACLE_KNOCKBACK
+      );
+      this.obstacleHits.set(ghost.id, OBSTACLE_HIT_COOLDOWN);
+    });
+  }
+
+  update(dt) {
+    this.updatePlatform();
+    this.positionObstacles(dt);
+
+    this.aliveGhosts().forEach((ghost) => {
+      const pushState = this.pushStates.get(ghost.id);
+      const input = this.inputs.get(ghost.id);
+
+      if (pushState.cooldown > 0) {
+        pushState.cooldown = Math.max(0, pushState.cooldown - dt);
+      }
+
+      pushState.bracing = input.bracing && pushState.charge === null && !pushState.direction;
+
+      const canCharge = !pushState.bracing && pushState.charge === null && !pushState.direction && pushState.cooldown === 0;
+      if (this.consumeAction(ghost.id) && canCharge) {
+        pushState.charge = 0;
+      }
+
+      if (pushState.charge !== null) {
+        if (input.holding) {
+          pushState.charge = Math.min(MAX_CHARGE_MS, pushState.charge + dt);
+        } else {
+          this.releasePush(pushState, input);
+        }
+      }
+    });
+
+    this.aliveGhosts().forEach((ghost) => this.applyPush(ghost, dt));
+
+    this.moveGhosts(dt);
+    this.collideAll();
+    this.hitObstacles(dt);
+
+    this.aliveGhosts().forEach((ghost) => {
+      if (!platformContains(this.platform, ghost.x, ghost.y)) {
+        this.eliminate(ghost.id);
+      }
+    });
+  }
+
+  // Sai na direção do input; sem direção, a carga se perde sem gastar a recarga
+  releasePush(pushState, input) {
+    const charge = pushState.charge;
+    pushState.charge = null;
+    if (input.dx === 0 && input.dy === 0) return;
+
+    const magnitude = Math.sqrt(input.dx * input.dx + input.dy * input.dy);
+    pushState.direction = { x: input.dx / magnitude, y: input.dy / magnitude };
+    pushState.strength = MIN_PUSH_STRENGTH + (MAX_PUSH_STRENGTH - MIN_PUSH_STRENGTH) * (charge / MAX_CHARGE_MS);
+    pushState.elapsed = 0;
+    pushState.landed = false;
+    pushState.cooldown = this.settings.pushCooldownMs;
+  }
+
+  massOf(ghost) {
+    return this.pushStates.get(ghost.id).bracing ? BRACE_MASS : 1;
+  }
+
+  // Quem firma não anda; o knockback recebido continua valendo
+  moveGhosts(dt) {
+    this.aliveGhosts().forEach((ghost) => {
+      const input = this.inputs.get(ghost.id);
+      const bracing = this.pushStates.get(ghost.id).bracing;
+      moveGhost(ghost, bracing ? 0 : input.dx, bracing ? 0 : input.dy, dt, FIELD_BOUNDS);
+      updateDash(ghost, dt);
+    });
+  }
+
+  collideAll() {
+    const alive = this.aliveGhosts();
+    for (let i = 0; i < alive.length; i++) {
+      for (let j = i + 1; j < alive.length; j++) {
+        collideGhosts(alive[i], alive[j], this.massOf(alive[i]), this.massOf(alive[j]));
+      }
+    }
+  }
+
+  applyPush(pusher, dt) {
+    const pushState = this.pushStates.get(pusher.id);
+    if (!pushState.direction) return;
+
+    pushState.elapsed += dt;
+    if (pushState.elapsed >= PUSH_DURATION) {
+      pushState.direction = null;
+      return;
+    }
+
+    let closestGhost = null;
+    let closestDistance = Infinity;
+
+    for (const other of this.aliveGhosts()) {
+      if (other.id === pusher.id) continue;
+      const distance = distanceBetween(pusher, other);
+      if (distance < PUSH_RANGE && distance < closestDistance) {
+        closestDistance = distance;
+        closestGhost = other;
+      }
+    }
+
+    if (closestGhost) {
+      // Cada empurrão conta uma vez para a façanha most_pushes, no primeiro contato
+      if (!pushState.landed) {
+        pushState.landed = true;
+        pushState.pushesLanded++;
+      }
+      const impulse = (PUSH_ACCELERATION * pushState.strength * (1 - pushState.elapsed / PUSH_DURATION) * (dt / 1000)) /
+        this.massOf(closestGhost);
+      applyKnockback(closestGhost, pushState.direction.x * impulse, pushState.direction.y * impulse);
+    }
+  }
+
+  getFeats() {
+    const pushes = new Map();
+    this.pushStates.forEach((pushState, playerId) => {
+      if (!this.droppedPlayers.includes(playerId)) pushes.set(playerId, pushState.pushesLanded);
+    });
+    return [{ feat: 'most_pushes', playerIds: featLeaders(pushes) }];
+  }
+
+  compareTied(a, b) {
+    return this.pushStates.get(b).pushesLanded - this.pushStates.get(a).pushesLanded;
+  }
+
+  serializeState() {
+    const pushing = [];
+    const charging = {};
+    const bracing = [];
+    this.pushStates.forEach((pushState, playerId) => {
+      if (pushState.direction) pushing.push(playerId);
+      if (pushState.charge !== null) charging[playerId] = Math.round(pushState.charge);
+      if (pushState.bracing) bracing.push(playerId);
+    });
+
+    return {
+      platform: roundPlatform(this.platform),
+      crumbling: this.crumbling && roundPlatform(this.crumbling),
+      crumbleIn: this.crumbling ? Math.max(0, Math.round(this.nextShrinkAt - this.elapsed)) : 0,
+      obstacles: this.obstacles.map(({ id, x, y }) => ({
+        id,
+        x: Math.round(x),
+        y: Math.round(y),
+        radius: OBSTACLE_RADIUS
+      })),
+      pushing,
+      charging,
+      bracing,
+      pushCooldowns: Object.fromEntries(
+        Array.from(this.pushStates.entries()).map(([id, s]) => [id, Math.round(s.cooldown)])
+      )
+    };
+  }
+}
@@ -0,0 +1,326 @@
+import { GameSimulation, FIELD_WIDTH, FIELD_HEIGHT } from './GameSimulation.js';
+import { activateDash, applyKnockback, distanceBetween, moveGhost, updateDash, GHOST_RADIUS } from './ghost.js';
+import { featLeaders } from './scoring.js';
+
+const BOMB_PASS_COOLDOWN = 500;
+const BOMB_PASS_DISTANCE = 40;
+const GRID_SPACING = 150;
+// Pausa entre o fim de uma rodada e as bombas da próxima
+const ROUND_BREAK_MS = 2000;
+// Por mais rodadas que passem, nenhum pavio fica mais curto que isso
+const MIN_FUSE_MS = 5000;
+// Pavio aleatório: entre 50% e 150% do pavio da rodada
+const RANDOM_FUSE_SPREAD = 0.5;
+// Morte súbita: cada lado da arena recua tantos px/s, até o tamanho mínimo
+const ARENA_SHRINK_SPEED = 20;
+const MIN_ARENA_WIDTH = 200;
+const MIN_ARENA_HEIGHT = 150;
+// Explosão: quem está além do raio de eliminação e até esse múltiplo dele
+// fica atordoado e é arremessado, mais forte quanto mais perto
+const STUN_RADIUS_FACTOR = 2;
+const STUN_MS = 1500;
+const EXPLOSION_KNOCKBACK = 700;
+
+// Valores de fuseMode: o tempo aparece no cliente, fica escondido, ou fica
+// escondido e varia de bomba para bomba
+export const FUSE_MODES = ['visible', 'hidden', 'random'];
+
+/**
+ * Pega-pega em rodadas: cada rodada entrega uma bomba a cada `playersPerBomb`
+ * vivos (sempre sobra alguém sem bomba), todas com o pavio da rodada, que não
+ * reinicia ao passar. Quando a última bomba explode, começa a próxima rodada
+ * com o pavio `fuseDecayPercent`% mais curto. Depois de `suddenDeathMs`, a
+ * arena encolhe e empurra os fantasmas uns contra os outros.
+ *
+ * A explosão elimina também quem estiver a até `blastRadius` do portador e
+ * atordoa quem estiver no anel de fora; a bomba de um eliminado pela explosão
+ * explode em seguida, no mesmo tick (reação em cadeia). Cada explosão sai como
+ * evento 'explosion'.
+ *
+ * Desempate: entre eliminados no mesmo tick (bombas da mesma rodada explodem
+ * juntas), quem segurou bomba por menos tempo fica à frente.
+ */
+export class TagBombSimulation extends GameSimulation {
+  static SETTINGS = {
+    bombFuseMs: { default: 30000, min: 10000, max: 60000 },
+    fuseDecayPercent: { default: 15, min: 0, max: 50 },
+    playersPerBomb: { default: 4, min: 2, max: 10 },
+    fuseMode: { default: 0, min: 0, max: 2 },
+    suddenDeathMs: { default: 90000, min: 30000, max: 180000 },
+    blastRadius: { default: 60, min: 0, max: 150 }
+  };
+
+  static CHECKPOINT_FIELDS = ['round', 'bombs', 'nextBombId', 'roundBreak', 'arena', 'stunned', 'bombHoldTime'];
+
+  setup() {
+    const gridCols = Math.ceil(Math.sqrt(this.players.length));
+
+    this.players.forEach((player, index) => {
+      const col = index % gridCols;
+      const row = Math.floor(index / gridCols);
+      this.addGhost(player, 150 + col * GRID_SPACING, 150 + row * GRID_SPACING);
+    });
+
+    this.fuseMode = FUSE_MODES[Math.round(this.settings.fuseMode)];
+    this.round = 0;
+    this.bombs = [];
+    this.nextBombId = 1;
+    this.roundBreak = 0;
+    // null até a morte súbita; depois, o retângulo onde os fantasmas ainda cabem
+    this.arena = null;
+    // Tempo restante de atordoamento de cada fantasma atingido por explosão
+    this.stunned = new Map();
+    // Tempo total com bomba, para a façanha longest_bomb_hold
+    this.bombHoldTime = new Map();
+    this.startRound();
+  }
+
+  roundFuse() {
+    const decay = (1 - this.settings.fuseDecayPercent / 100) ** (this.round - 1);
+    return Math.max(MIN_FUSE_MS, this.settings.bombFuseMs * decay);
+  }
+
+  // Portadores sorteados entre os vivos, pela semente da partida
+  startRound() {
+    const candidates = this.aliveGhosts().sort((a, b) => a.id.localeCompare(b.id));
+    if (candidates.length < 2) return;
+
+    this.round++;
+    const bombCount = Math.max(1, Math.ceil((candidates.length - 1) / this.settings.playersPerBomb));
+    const fuse = this.roundFuse();
+
+    for (let i = 0; i < bombCount; i++) {
+      const holder = candidates.splice(this.random.int(candidates.length), 1)[0];
+      const timer = this.fuseMode === 'random'
+        ? fuse * this.random.range(1 - RANDOM_FUSE_SPREAD, 1 + RANDOM_FUSE_SPREAD)
+        : fuse;
+      this.bombs.push({ id: this.nextBombId++, holderId: holder.id, timer, passCooldown: 0 });
+    }
+    this.syncBombHolders();
+  }
+
+  syncBombHolders() {
+    const holders = new Set(this.bombs.map((bomb) => bomb.holderId));
+    this.ghosts.forEach((ghost) => {
+      ghost.hasBomb = holders.has(ghost.id);
+    });
+  }
+
+  // Vivo mais próximo, ao alcance e ainda sem bomba
+  findPassTarget(holder) {
+    const holders = new Set(this.bombs.map((bomb) => bomb.holderId));
+    let closestGhost = null;
+    let closestDistance = Infinity;
+
+    for (const other of this.aliveGhosts()) {
+      if (holders.has(other.id)) continue;
+      const distance = distanceBetween(holder, other);
+      if (distance < BOMB_PASS_DISTANCE && distance < closestDistance) {
+        closestDistance = distance;
+        closestGhost = other;
+      }
+    }
+    return closestGhost;
+  }
+
+  // Limites de movimento: o campo inteiro ou, na morte súbita, a arena
+  movementBounds() {
+    const { x, y, width, height } = this.arena ?? { x: 0, y: 0, width: FIELD_WIDTH, height: FIELD_HEIGHT };
+    return {
+      minX: x + GHOST_RADIUS,
+      minY: y + GHOST_RADIUS,
+      maxX: x + width - GHOST_RADIUS,
+      maxY: y + height - GHOST_RADIUS
+    };
+  }
+
+  shrinkArena(dt) {
+    if (!this.arena) {
+      this.arena = { x: 0, y: 0, width: FIELD_WIDTH, height: FIELD_HEIGHT };
+    }
+
+    const step = ARENA_SHRINK_SPEED * (dt / 1000);
+    const shrinkX = Math.min(step, (this.arena.width - MIN_ARENA_WIDTH) / 2);
+    const shrinkY = Math.min(step, (this.arena.height - MIN_ARENA_HEIGHT) / 2);
+    this.arena.x += shrinkX;
+    this.arena.width -= shrinkX * 2;
+    this.arena.y += shrinkY;
+    this.arena.height -= shrinkY * 2;
+  }
+
+  // Atordoados não andam nem dão dash; o knockback da explosão continua valendo
+  moveGhosts(dt) {
+    const bounds = this.movementBounds();
+    this.aliveGhosts().forEach((ghost) => {
+      const input = this.inputs.get(ghost.id);
+      const stunned = this.stunned.has(ghost.id);
+      moveGhost(ghost, stunned ? 0 : input.dx, stunned ? 0 : input.dy, dt, bounds);
+      updateDash(ghost, dt);
+    });
+  }
+
+  update(dt) {
+    this.stunned.forEach((remaining, playerId) => {
+      if (remaining <= dt) {
+        this.stunned.delete(playerId);
+      } else {
+        this.stunned.set(playerId, remaining - dt);
+      }
+    });
+
+    this.aliveGhosts().forEach((ghost) => {
+      if (this.consumeAction(ghost.id) && !this.stunned.has(ghost.id)) {
+        activateDash(ghost);
+      }
+    });
+
+    if (this.elapsed >= this.settings.suddenDeathMs) {
+      this.shrinkArena(dt);
+    }
+
+    this.moveGhosts(dt);
+
+    if (this.roundBreak > 0) {
+      this.roundBreak -= dt;
+      if (this.roundBreak <= 0) {
+        this.roundBreak = 0;
+        this.startRound();
+      }
+      return;
+    }
+
+    const exploded = [];
+    this.bombs.forEach((bomb) => {
+      const holder = this.ghosts.get(bomb.holderId);
+      this.bombHoldTime.set(holder.id, (this.bombHoldTime.get(holder.id) ?? 0) + dt);
+
+      bomb.passCooldown = Math.max(0, bomb.passCooldown - dt);
+      if (bomb.passCooldown === 0) {
+        const target = this.findPassTarget(holder);
+        if (target) {
+          bomb.holderId = target.id;
+          bomb.passCooldown = BOMB_PASS_COOLDOWN;
+          this.syncBombHolders();
+        }
+      }
+
+      bomb.timer -= dt;
+      if (bomb.timer <= 0) {
+        exploded.push(bomb);
+      }
+    });
+
+    // Uma bomba da lista pode já ter ido junto numa reação em cadeia
+    exploded.forEach((bomb) => {
+      if (this.bombs.includes(bomb)) {
+        this.explode(bomb);
+      }
+    });
+
+    if (exploded.length > 0) {
+      this.syncBombHolders();
+      this.endRoundIfDone();
+    }
+  }
+
+  explode(bomb, chainedFrom = null) {
+    this.bombs.splice(this.bombs.indexOf(bomb), 1);
+    const holder = this.ghosts.get(bomb.holderId);
+    const radius = this.settings.blastRadius;
+    const stunRadius = radius * STUN_RADIUS_FACTOR;
+    const eliminated = [];
+    const stunned = [];
+
+    this.eliminate(holder.id);
+    this.aliveGhosts().sort((a, b) => a.id.localeCompare(b.id)).forEach((ghost) => {
+      const distance = distanceBetween(holder, ghost);
+      if (distance < radius) {
+        eliminated.push(ghost.id);
+        this.eliminate(ghost.id);
+      } else if (distance < stunRadius) {
+        const impulse = EXPLOSION_KNOCKBACK * (1 - distance / stunRadius);
+        stunned.push(ghost.id);
+        this.stunned.set(ghost.id, STUN_MS);
+        ghost.isDashing = false;
+        applyKnockback(ghost, ((ghost.x - holder.x) / distance) * impulse, ((ghost.y - holder.y) / distance) * impulse);
+      }
+    });
+
+    this.emitEvent({
+      type: 'explosion',
+      bombId: bomb.id,
+      holderId: holder.id,
+      x: Math.round(holder.x),
+      y: Math.round(holder.y),
+      radius,
+      stunRadius,
+      eliminated,
+      stunned,
+      stunMs: STUN_MS,
+      chainedFrom
+    });
+
+    this.bombs
+      .filter((other) => eliminated.includes(other.holderId))
+      .forEach((other) => this.explode(other, bomb.id));
+  }
+
+  endRoundIfDone() {
+    if (this.bombs.length === 0 && this.roundBreak === 0 && this.aliveGhosts().length > 1) {
+      this.roundBreak = ROUND_BREAK_MS;
+    }
+  }
+
+  // A bomba de quem caiu passa para outro vivo sem bomba, desde que ainda
+  // sobre alguém sem bomba; senão, ela some
+  dropPlayer(playerId) {
+    super.dropPlayer(playerId);
+
+    this.bombs.filter((bomb) => bomb.holderId === playerId).forEach((bomb) => {
+      const holders = new Set(this.bombs.map((b) => b.holderId));
+      const candidates = this.aliveGhosts()
+        .filter((ghost) => !holders.has(ghost.id))
+        .sort((a, b) => a.id.localeCompare(b.id));
+
+      if (candidates.length > 1) {
+        bomb.holderId = this.random.pick(candidates).id;
+        bomb.passCooldown = 0;
+      } else {
+        this.bombs.splice(this.bombs.indexOf(bomb), 1);
+      }
+    });
+
+    this.syncBombHolders();
+    this.endRoundIfDone();
+  }
+
+  // Quem segurou bomba por mais tempo sem cair por desconexão
+  getFeats() {
+    const holdTimes = new Map(Array.from(this.bombHoldTime).filter(([id]) => !this.droppedPlayers.includes(id)));
+    return [{ feat: 'longest_bomb_hold', playerIds: featLeaders(holdTimes) }];
+  }
+
+  compareTied(a, b) {
+    return (this.bombHoldTime.get(a) ?? 0) - (this.bombHoldTime.get(b) ?? 0);
+  }
+
+  // Nos modos escondido e aleatório, o cliente não recebe o tempo das bombas
+  serializeState() {
+    return {
+      round: this.round,
+      bombs: this.bombs.map((bomb) => ({
+        id: bomb.id,
+        holderId: bomb.holderId,
+        timer: this.fuseMode === 'visible' ? Math.max(0, Math.round(bomb.timer)) : null
+      })),
+      roundBreak: Math.round(this.roundBreak),
+      suddenDeathIn: Math.max(0, Math.round(this.settings.suddenDeathMs - this.elapsed)),
+      arena: this.arena && {
+        x: Math.round(this.arena.x),
+        y: Math.round(this.arena.y),
+        width: Math.round(this.arena.width),
+        height: Math.round(this.arena.height)
+      }
+    };
+  }
+}
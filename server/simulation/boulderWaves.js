@@ -0,0 +1,81 @@
+// Roteiro das ondas do Boulder Run. As ondas se repetem em ciclo, cada uma
+// soltando o seu padrão a cada `interval` × spawnIntervalMs durante
+// `durationMs`; a dificuldade da simulação encurta os intervalos e acelera as
+// pedras. Toda escolha passa pelo `random` da partida, então a mesma semente
+// monta o mesmo percurso.
+
+import { FIELD_WIDTH } from './GameSimulation.js';
+
+export const LANE_COUNT = 5;
+export const LANE_WIDTH = FIELD_WIDTH / LANE_COUNT;
+
+// Padrões:
+// - rain: uma pedra numa faixa sorteada
+// - zigzag: pedra que quica nas laterais
+// - wall: uma pedra da largura da faixa em cada uma, menos uma brecha
+// - splitter: pedra grande que se parte em duas no meio da tela
+export const WAVE_SCRIPT = [
+  { pattern: 'rain', durationMs: 8000, interval: 1 },
+  { pattern: 'zigzag', durationMs: 6000, interval: 1.5 },
+  { pattern: 'rain', durationMs: 5000, interval: 0.7 },
+  { pattern: 'wall', durationMs: 6000, interval: 2.5 },
+  { pattern: 'splitter', durationMs: 7000, interval: 2 }
+];
+
+const BASE_SPEED_MIN = 50;
+const BASE_SPEED_MAX = 125;
+const ZIGZAG_SIDE_SPEED = 140;
+
+export function laneCenter(lane) {
+  return LANE_WIDTH * lane + LANE_WIDTH / 2;
+}
+
+// Pedras do padrão, sem id; `difficulty` multiplica as velocidades
+export function patternBoulders(pattern, random, difficulty) {
+  const speed = () => random.range(BASE_SPEED_MIN, BASE_SPEED_MAX) * difficulty;
+
+  if (pattern === 'zigzag') {
+    const radius = random.range(20, 30);
+    const direction = random.next() < 0.5 ? -1 : 1;
+    return [{
+      kind: 'bouncer',
+      x: laneCenter(random.int(LANE_COUNT)),
+      y: -radius,
+      radius,
+      vx: direction * ZIGZAG_SIDE_SPEED * difficulty,
+      vy: speed()
+    }];
+  }
+
+  if (pattern === 'wall') {
+    const gap = random.int(LANE_COUNT);
+    // A parede desce devagar e inteira, para a brecha ser alcançável. As pedras
+    // vizinhas se tocam, então só a faixa da brecha passa
+    const vy = BASE_SPEED_MIN * difficulty;
+    const radius = LANE_WIDTH / 2;
+    return Array.from({ length: LANE_COUNT }, (_, lane) => lane)
+      .filter((lane) => lane !== gap)
+      .map((lane) => ({ kind: 'normal', x: laneCenter(lane), y: -radius, radius, vx: 0, vy }));
+  }
+
+  if (pattern === 'splitter') {
+    return [{
+      kind: 'splitter',
+      x: laneCenter(1 + random.int(LANE_COUNT - 2)),
+      y: -45,
+      radius: 45,
+      vx: 0,
+      vy: speed()
+    }];
+  }
+
+  const radius = random.range(20, 45);
+  return [{
+    kind: 'normal',
+    x: laneCenter(random.int(LANE_COUNT)),
+    y: -radius,
+    radius,
+    vx: 0,
+    vy: speed()
+  }];
+}
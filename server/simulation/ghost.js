@@ -0,0 +1,140 @@
+// Física dos fantasmas no servidor, espelhando frontend/src/core/Ghost.ts.
+// Velocidades em pixels por segundo e acelerações em pixels/s²; dt em ms.
+
+export const GHOST_RADIUS = 20;
+
+export const BASE_SPEED = 180;
+export const DASH_SPEED = 480;
+const ACCELERATION = 1800;
+const FRICTION = 2400;
+// Decaimento exponencial do knockback, por segundo
+const KNOCKBACK_DECAY = 6.3;
+const DASH_DURATION = 500;
+const DASH_COOLDOWN = 2000;
+// Fração da velocidade de aproximação devolvida numa colisão entre fantasmas
+const COLLISION_RESTITUTION = 0.5;
+
+function approach(current, target, maxDelta) {
+  if (current < target) return Math.min(current + maxDelta, target);
+  return Math.max(current - maxDelta, target);
+}
+
+export function createGhost(player, x, y) {
+  return {
+    id: player.id,
+    name: player.player_name,
+    color: player.ghost_color,
+    x,
+    y,
+    velocity: { x: 0, y: 0 },
+    knockback: { x: 0, y: 0 },
+    isDashing: false,
+    dashTime: 0,
+    dashCooldown: 0,
+    hasBomb: false
+  };
+}
+
+export function moveGhost(ghost, dx, dy, dt, bounds) {
+  const seconds = dt / 1000;
+  const magnitude = Math.sqrt(dx * dx + dy * dy);
+
+  if (magnitude > 0) {
+    const speed = ghost.isDashing ? DASH_SPEED : BASE_SPEED;
+    const targetX = (dx / magnitude) * speed;
+    const targetY = (dy / magnitude) * speed;
+
+    if (ghost.isDashing) {
+      ghost.velocity.x = targetX;
+      ghost.velocity.y = targetY;
+    } else {
+      ghost.velocity.x = approach(ghost.velocity.x, targetX, ACCELERATION * seconds);
+      ghost.velocity.y = approach(ghost.velocity.y, targetY, ACCELERATION * seconds);
+    }
+  } else {
+    ghost.velocity.x = approach(ghost.velocity.x, 0, FRICTION * seconds);
+    ghost.velocity.y = approach(ghost.velocity.y, 0, FRICTION * seconds);
+  }
+
+  ghost.x += (ghost.velocity.x + ghost.knockback.x) * seconds;
+  ghost.y += (ghost.velocity.y + ghost.knockback.y) * seconds;
+
+  const decay = Math.exp(-KNOCKBACK_DECAY * seconds);
+  ghost.knockback.x *= decay;
+  ghost.knockback.y *= decay;
+
+  if (ghost.x < bounds.minX || ghost.x > bounds.maxX) {
+    ghost.x = Math.max(bounds.minX, Math.min(bounds.maxX, ghost.x));
+    ghost.velocity.x = 0;
+    ghost.knockback.x = 0;
+  }
+  if (ghost.y < bounds.minY || ghost.y > bounds.maxY) {
+    ghost.y = Math.max(bounds.minY, Math.min(bounds.maxY, ghost.y));
+    ghost.velocity.y = 0;
+    ghost.knockback.y = 0;
+  }
+}
+
+// Impulso em pixels por segundo (empurrões, explosões)
+export function applyKnockback(ghost, x, y) {
+  ghost.knockback.x += x;
+  ghost.knockback.y += y;
+}
+
+/**
+ * Colisão círculo contra círculo: separa os fantasmas sobrepostos, o mais
+ * leve cedendo mais, e troca momento ao longo da normal. O impulso entra no
+ * knockback, a parte da velocidade que o input não controla.
+ */
+export function collideGhosts(a, b, massA = 1, massB = 1) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= GHOST_RADIUS * 2) return false;
+
+  // Fantasmas exatamente no mesmo ponto se separam na horizontal
+  const nx = distance > 0 ? dx / distance : 1;
+  const ny = distance > 0 ? dy / distance : 0;
+  const overlap = GHOST_RADIUS * 2 - distance;
+  const totalMass = massA + massB;
+  a.x -= nx * overlap * (massB / totalMass);
+  a.y -= ny * overlap * (massB / totalMass);
+  b.x += nx * overlap * (massA / totalMass);
+  b.y += ny * overlap * (massA / totalMass);
+
+  const approaching =
+    (b.velocity.x + b.knockback.x - a.velocity.x - a.knockback.x) * nx +
+    (b.velocity.y + b.knockback.y - a.velocity.y - a.knockback.y) * ny;
+  if (approaching >= 0) return true;
+
+  const impulse = (-(1 + COLLISION_RESTITUTION) * approaching) / (1 / massA + 1 / massB);
+  applyKnockback(a, (-impulse * nx) / massA, (-impulse * ny) / massA);
+  applyKnockback(b, (impulse * nx) / massB, (impulse * ny) / massB);
+  return true;
+}
+
+export function activateDash(ghost) {
+  if (ghost.dashCooldown <= 0 && !ghost.isDashing) {
+    ghost.isDashing = true;
+    ghost.dashTime = DASH_DURATION;
+  }
+}
+
+export function updateDash(ghost, dt) {
+  if (ghost.isDashing) {
+    ghost.dashTime -= dt;
+    if (ghost.dashTime <= 0) {
+      ghost.isDashing = false;
+      ghost.dashTime = 0;
+      ghost.dashCooldown = DASH_COOLDOWN;
+    }
+  } else if (ghost.dashCooldown > 0) {
+    ghost.dashCooldown = Math.max(0, ghost.dashCooldown - dt);
+  }
+}
+
+export function distanceBetween(a, b) {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
@@ -0,0 +1,21 @@
+import { TagBombSimulation } from './TagBombSimulation.js';
+import { PlatformPushSimulation } from './PlatformPushSimulation.js';
+import { BoulderRunSimulation } from './BoulderRunSimulation.js';
+import { FallingTilesSimulation } from './FallingTilesSimulation.js';
+
+export { TICK_MS } from './GameSimulation.js';
+
+const SIMULATIONS = {
+  tag_bomb: TagBombSimulation,
+  platform_push: PlatformPushSimulation,
+  boulder_run: BoulderRunSimulation,
+  falling_tiles: FallingTilesSimulation
+};
+
+export function createSimulation(gameType, options) {
+  const Simulation = SIMULATIONS[gameType];
+  if (!Simulation) {
+    throw new Error(`Unknown game type: ${gameType}`);
+  }
+  return new Simulation({ ...options, gameType });
+}
@@ -0,0 +1,41 @@
+// Gerador pseudoaleatório determinístico (mulberry32). A semente de cada
+// partida fica em game_sessions.seed: com a mesma semente e os mesmos inputs,
+// a simulação produz exatamente a mesma sequência de eventos. O estado interno
+// entra no checkpoint da partida para a sequência continuar após um restart.
+
+export function simpleHash(str) {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export function createRandom(seed) {
+  let state = seed >>> 0;
+
+  // Número em [0, 1), como Math.random()
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    // Real em [min, max)
+    range: (min, max) => min + next() * (max - min),
+    // Inteiro em [0, max)
+    int: (max) => Math.floor(next() * max),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    getState: () => state,
+    setState: (value) => {
+      state = value >>> 0;
+    }
+  };
+}
@@ -0,0 +1,104 @@
+// Log de replay de uma partida: os quadros da simulação, os inputs que
+// chegaram pelo socket, os eventos do jogo e os eventos de cada jogador, todos
+// marcados com o tick da simulação. O navegador reproduz o log em
+// /api/game-sessions/:id/replay. O log vai para game_replays aos pedaços, a
+// cada checkpoint e na conclusão: em memória ficam só as entradas ainda não
+// salvas.
+
+import { diffGameSnapshot } from '@demolish-dash/protocol';
+
+export const REPLAY_VERSION = 1;
+// Um quadro a cada REPLAY_FRAME_TICKS ticks (10 por segundo, contra os 30
+// transmitidos): um snapshot completo a cada REPLAY_KEYFRAME_TICKS e, entre
+// eles, deltas em relação ao quadro gravado anterior
+export const REPLAY_FRAME_TICKS = 3;
+export const REPLAY_KEYFRAME_TICKS = 150;
+// Teto do log (cerca de dez minutos de partida): ao chegar nele a gravação
+// para e o log sai com `truncated`
+export const MAX_REPLAY_ENTRIES = 30000;
+
+export class ReplayRecorder {
+  constructor(gameType) {
+    this.gameType = gameType;
+    this.entries = [];
+    // Total gravado na partida, contando as entradas já salvas
+    this.entryCount = 0;
+    this.truncated = false;
+    this.lastFrame = null;
+    this.lastFrameTick = 0;
+    this.lastKeyframeTick = 0;
+    // Último input gravado de cada jogador: os repetidos (o cliente manda a
+    // direção a cada 50ms) ficam de fora
+    this.lastInputs = new Map();
+  }
+
+  push(entry) {
+    if (this.entryCount >= MAX_REPLAY_ENTRIES) {
+      this.truncated = true;
+      return;
+    }
+    this.entries.push(entry);
+    this.entryCount++;
+  }
+
+  // Chamado a cada tick com o snapshot transmitido; `force` grava o quadro
+  // fora do intervalo (ex: o último da partida)
+  recordFrame(tick, snapshot, { force = false } = {}) {
+    if (this.lastFrame && !force && tick - this.lastFrameTick < REPLAY_FRAME_TICKS) return;
+
+    if (!this.lastFrame || tick - this.lastKeyframeTick >= REPLAY_KEYFRAME_TICKS) {
+      this.push({ tick, type: 'snapshot', snapshot });
+      this.lastKeyframeTick = tick;
+    } else {
+      this.push({ tick, type: 'delta', delta: diffGameSnapshot(this.lastFrame, snapshot) });
+    }
+    this.lastFrame = snapshot;
+    this.lastFrameTick = tick;
+  }
+
+  recordInput(tick, playerId, { dx, dy, action, holding, bracing }) {
+    const last = this.lastInputs.get(playerId);
+    const repeated = last && last.dx === dx && last.dy === dy && last.holding === holding && last.bracing === bracing;
+    if (!action && repeated) return;
+
+    this.lastInputs.set(playerId, { dx, dy, holding, bracing });
+    this.push({ tick, type: 'input', playerId, input: { dx, dy, action, holding, bracing } });
+  }
+
+  // event: 'eliminated' | 'dropped' | 'disconnected' | 'reconnected'
+  recordEvent(tick, event, playerId) {
+    this.push({ tick, type: 'event', event, playerId });
+  }
+
+  // Evento do jogo, como foi transmitido em 'game-event'
+  recordGameEvent(tick, event) {
+    this.push({ tick, type: 'game-event', event });
+  }
+
+  // Trecho do log com as entradas gravadas desde o último, para anexar ao salvo
+  takeLog(tickMs) {
+    const entries = this.entries;
+    this.entries = [];
+    return {
+      version: REPLAY_VERSION,
+      gameType: this.gameType,
+      tickMs,
+      truncated: this.truncated,
+      entries
+    };
+  }
+
+  toCheckpoint() {
+    return { entryCount: this.entryCount, truncated: this.truncated };
+  }
+
+  // Continua um log já salvo até o checkpoint; o primeiro quadro daqui em
+  // diante é um snapshot completo
+  restore({ entryCount, truncated }) {
+    this.entries = [];
+    this.entryCount = entryCount;
+    this.truncated = truncated;
+    this.lastFrame = null;
+    this.lastInputs.clear();
+  }
+}
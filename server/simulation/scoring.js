@@ -0,0 +1,73 @@
+// Pontuação das partidas: a simulação só ordena os jogadores e aponta as
+// façanhas; os pontos saem daqui, pelas regras escolhidas em rooms.settings.scoring.
+
+export const SCORING_SYSTEMS = ['linear', 'winner_takes_most'];
+
+// Pontos do 1º, 2º, 3º e 4º lugares; do 5º em diante, 0
+const WINNER_TAKES_MOST_POINTS = [10, 6, 3, 1];
+const FINAL_GAME_MULTIPLIER = 2;
+export const FEAT_BONUS_POINTS = 2;
+
+function basePoints(system, rank, totalPlayers) {
+  if (system === 'winner_takes_most') {
+    return WINNER_TAKES_MOST_POINTS[rank - 1] ?? 0;
+  }
+  return Math.max(0, totalPlayers - rank + 1);
+}
+
+// Empatados dividem os pontos das posições que ocupam (ex: dois no 2º lugar
+// levam a média do 2º e do 3º), arredondada para cima
+function sharedBasePoints(system, rank, tiedCount, totalPlayers) {
+  let sum = 0;
+  for (let offset = 0; offset < tiedCount; offset++) {
+    sum += basePoints(system, rank + offset, totalPlayers);
+  }
+  return Math.ceil(sum / tiedCount);
+}
+
+/**
+ * Transforma o ranking da simulação em resultados com pontos e a composição
+ * deles (`breakdown`). `ranking` vem ordenado: { player_id, player_name,
+ * rank, dropped }, com a mesma posição repetida nos empates. Quem caiu por
+ * desconexão não pontua, e o linear conta só os participantes ativos.
+ * `feats` lista { feat, playerIds }; o bônus não é multiplicado no jogo final.
+ */
+export function scoreResults(ranking, { scoring = {}, gameNumber, totalGames, feats = [] } = {}) {
+  const system = SCORING_SYSTEMS.includes(scoring.system) ? scoring.system : 'linear';
+  const multiplier = scoring.doubleFinal && gameNumber && gameNumber === totalGames ? FINAL_GAME_MULTIPLIER : 1;
+  const totalPlayers = ranking.filter((entry) => !entry.dropped).length;
+  const tiedCounts = new Map();
+  ranking.forEach((entry) => {
+    if (!entry.dropped) tiedCounts.set(entry.rank, (tiedCounts.get(entry.rank) ?? 0) + 1);
+  });
+
+  return ranking.map(({ player_id, player_name, rank, dropped }) => {
+    const base = dropped ? 0 : sharedBasePoints(system, rank, tiedCounts.get(rank), totalPlayers);
+    const bonuses = scoring.featBonuses && !dropped
+      ? feats
+        .filter((feat) => feat.playerIds.includes(player_id))
+        .map((feat) => ({ feat: feat.feat, points: FEAT_BONUS_POINTS }))
+      : [];
+
+    return {
+      player_id,
+      player_name,
+      rank,
+      points: base * multiplier + bonuses.reduce((sum, bonus) => sum + bonus.points, 0),
+      breakdown: { base, multiplier, bonuses }
+    };
+  });
+}
+
+// Jogadores com o maior valor (empates levam todos); ninguém se o máximo é 0
+export function featLeaders(values) {
+  let best = 0;
+  values.forEach((value) => {
+    best = Math.max(best, value);
+  });
+  if (best <= 0) return [];
+
+  return Array.from(values.entries())
+    .filter(([, value]) => value === best)
+    .map(([playerId]) => playerId);
+}